@@ -0,0 +1,213 @@
+let context: AudioContext | undefined;
+
+/**
+ * Decoded sounds by their URL.
+ */
+const buffers = new Map<string, Promise<AudioBuffer>>();
+
+/**
+ * Channels with at least one sound playing.
+ */
+const playing = new Set<Channel>();
+
+/**
+ * @returns the audio context, created on first use
+ * (browsers only allow sounds after the user interacts)
+ */
+export function getContext() {
+    return context ??= new AudioContext();
+}
+
+/**
+ * @param url URL of the sound
+ * @returns the decoded sound (cached)
+ */
+export function load(url: string) {
+    let buffer = buffers.get(url);
+
+    if (!buffer) {
+        buffer = fetch(url)
+            .then(response => response.arrayBuffer())
+            .then(data => getContext().decodeAudioData(data));
+
+        // Let it be loaded again, if it failed
+        buffer.catch(() => buffers.delete(url));
+        buffers.set(url, buffer);
+    }
+
+    return buffer;
+}
+
+/**
+ * Stops the sounds of all the entities.
+ */
+export function stopAll() {
+    for (const channel of playing) {
+        channel.stop();
+    }
+}
+
+export function suspend() {
+    return context?.suspend();
+}
+
+export function resume() {
+    return context?.resume();
+}
+
+/**
+ * Plays the sounds of an entity through
+ * its own volume and pan nodes.
+ */
+class Channel {
+    private sources = new Set<AudioScheduledSourceNode>();
+
+    /**
+     * Sources of sounds and notes, which follow the pitch effect
+     * (unlike drums).
+     */
+    private pitched = new Set<AudioScheduledSourceNode>();
+    private nodes?: {gain: GainNode, panner: StereoPannerNode};
+    private settings: Channel.Settings = {volume: 100, pitch: 0, pan: 0};
+
+    /**
+     * @param url URL of the sound
+     * @returns a promise that resolves when the sound ends or is stopped
+     */
+    async play(url: string) {
+        const buffer = await load(url);
+        const context = getContext();
+        const source = context.createBufferSource();
+
+        source.buffer = buffer;
+        source.connect(this.input);
+        source.start();
+
+        return this.track(source, true);
+    }
+
+    /**
+     * Input of the channel, for synthesized sounds.
+     */
+    get input(): AudioNode {
+        return this.connect().gain;
+    }
+
+    /**
+     * Tracks a started source, so that it can be stopped.
+     * @param source The source (connected to the input)
+     * @param pitched Whether the pitch effect applies to it
+     * @returns a promise that resolves when it ends or is stopped
+     */
+    track(source: AudioScheduledSourceNode, pitched = false) {
+        this.sources.add(source);
+        playing.add(this);
+
+        if (pitched) {
+            this.pitched.add(source);
+            this.tune(source);
+        }
+
+        return new Promise<void>(resolve => {
+            source.onended = () => {
+                this.sources.delete(source);
+                this.pitched.delete(source);
+
+                if (!this.sources.size) {
+                    playing.delete(this);
+                }
+
+                resolve();
+            };
+        });
+    }
+
+    stop() {
+        for (const source of this.sources) {
+            source.stop();
+        }
+    }
+
+    /**
+     * Stops the sounds and disconnects the nodes of the channel.
+     * It connects them again if it plays another sound.
+     */
+    dispose() {
+        this.stop();
+
+        if (this.nodes) {
+            this.nodes.gain.disconnect();
+            this.nodes.panner.disconnect();
+            this.nodes = undefined;
+        }
+    }
+
+    /**
+     * Applies the settings to the playing and future sounds.
+     * Values are clamped to the ranges of Scratch.
+     */
+    set({volume, pitch, pan}: Channel.Settings) {
+        this.settings = {
+            volume: Math.min(Math.max(volume, 0), 100),
+            pitch: Math.min(Math.max(pitch, -360), 360),
+            pan: Math.min(Math.max(pan, -100), 100)
+        };
+
+        if (this.nodes) {
+            this.nodes.gain.gain.value = this.settings.volume / 100;
+            this.nodes.panner.pan.value = this.settings.pan / 100;
+        }
+
+        for (const source of this.pitched) {
+            this.tune(source);
+        }
+    }
+
+    /**
+     * Applies the pitch effect: sounds are played faster,
+     * notes are detuned (a semitone is 100 cents).
+     */
+    private tune(source: AudioScheduledSourceNode) {
+        if (source instanceof AudioBufferSourceNode) {
+            source.playbackRate.value = Channel.toRate(this.settings.pitch);
+        } else if (source instanceof OscillatorNode) {
+            source.detune.value = this.settings.pitch * 10;
+        }
+    }
+
+    private connect() {
+        if (!this.nodes) {
+            const context = getContext();
+            const gain = context.createGain();
+            const panner = context.createStereoPanner();
+
+            gain.gain.value = this.settings.volume / 100;
+            panner.pan.value = this.settings.pan / 100;
+
+            gain.connect(panner);
+            panner.connect(context.destination);
+
+            this.nodes = {gain, panner};
+        }
+
+        return this.nodes;
+    }
+
+    /**
+     * @param pitch Pitch effect (10 = a semitone higher)
+     * @returns the playback rate
+     */
+    private static toRate(pitch: number) {
+        return 2 ** (pitch / 120);
+    }
+}
+
+declare namespace Channel {
+    interface Settings {
+        volume: number;
+        pitch: number;
+        pan: number;
+    }
+}
+
+export default Channel;
@@ -0,0 +1,153 @@
+/**
+ * Source of time for the engine. Both implementations
+ * count milliseconds from the same origin (0 = page load).
+ */
+export interface Clock {
+    now(): number;
+    setTimeout(callback: VoidFunction, ms: number): number;
+    clearTimeout(id: number): void;
+    requestFrame(callback: (time: number) => void): void;
+}
+
+/**
+ * The clock of the browser.
+ */
+export class RealClock implements Clock {
+    now() {
+        return performance.now();
+    }
+
+    setTimeout(callback: VoidFunction, ms: number) {
+        return window.setTimeout(callback, ms);
+    }
+
+    clearTimeout(id: number) {
+        window.clearTimeout(id);
+    }
+
+    requestFrame(callback: (time: number) => void) {
+        window.requestAnimationFrame(callback);
+    }
+}
+
+/**
+ * A clock which only moves when told to,
+ * so tests can assert on exact moments.
+ * Turbo mode is not supported, as no time
+ * passes while the threads are running.
+ */
+export class VirtualClock implements Clock {
+    /**
+     * Interval between two screen refreshes (60 Hz).
+     */
+    frameInterval = 1000 / 60;
+
+    private timers: VirtualClock.Timer[] = [];
+    private frames: ((time: number) => void)[] = [];
+    private lastId = 0;
+
+    /**
+     * Frames fired so far, counted as an integer so that
+     * rounding errors can't make the next frame stand still.
+     */
+    private frame: number;
+
+    constructor(private time = 0) {
+        this.frame = Math.floor(time / this.frameInterval);
+    }
+
+    now() {
+        return this.time;
+    }
+
+    setTimeout(callback: VoidFunction, ms: number) {
+        const id = ++this.lastId;
+        this.timers.push({id, time: this.time + Math.max(0, ms), callback});
+        return id;
+    }
+
+    clearTimeout(id: number) {
+        this.timers = this.timers.filter(timer => timer.id !== id);
+    }
+
+    requestFrame(callback: (time: number) => void) {
+        this.frames.push(callback);
+    }
+
+    /**
+     * Moves the time forward, firing timers and frames in order.
+     * Pending promises settle between each of them.
+     * @param ms Milliseconds to advance
+     */
+    async advance(ms: number) {
+        const end = this.time + ms;
+
+        await VirtualClock.settle();
+
+        while (true) {
+            const frame = (this.frame + 1) * this.frameInterval;
+            const timer = this.timers.reduce<VirtualClock.Timer | undefined>(
+                (first, timer) => !first || timer.time < first.time ? timer : first,
+                undefined
+            );
+
+            if (timer && timer.time <= end && timer.time <= frame) {
+                this.time = timer.time;
+                this.timers = this.timers.filter(t => t !== timer);
+                timer.callback();
+            } else if (frame <= end) {
+                this.time = frame;
+                this.frame++;
+
+                const frames = this.frames;
+                this.frames = [];
+
+                for (const callback of frames) {
+                    callback(frame);
+                }
+            } else {
+                break;
+            }
+
+            await VirtualClock.settle();
+        }
+
+        this.time = end;
+    }
+
+    /**
+     * @returns a promise that resolves after all pending promises
+     */
+    private static settle() {
+        return new Promise<void>(resolve => {
+            const channel = new MessageChannel();
+            channel.port1.onmessage = () => {
+                channel.port1.close();
+                resolve();
+            };
+            channel.port2.postMessage(null);
+        });
+    }
+}
+
+declare namespace VirtualClock {
+    type Timer = {
+        id: number;
+        time: number;
+        callback: VoidFunction;
+    };
+}
+
+/**
+ * The clock used by the engine.
+ */
+export let clock: Clock = new RealClock();
+
+/**
+ * Replaces the clock of the engine.
+ * It should be called before the project starts.
+ * @param value The new clock
+ */
+export function setClock(value: Clock) {
+    clock = value;
+}
@@ -9,3 +9,84 @@ export function fromRGB(...args: [number, number, number]) {
 export function random() {
 	return "#" + Math.floor(Math.random() * 0xffffff).toString(16);
 }
+
+let context: CanvasRenderingContext2D | undefined;
+
+/**
+ * @param color Any CSS color ("red", "rgb(255, 0, 0)"...)
+ * @returns the color as "#rrggbb" (without its alpha),
+ * or undefined if it is not a color
+ */
+export function toHex(color: string) {
+	context ??= document.createElement("canvas").getContext("2d")!;
+
+	// An invalid color leaves the style unchanged, whatever it was
+	const parse = (initial: string) => {
+		context!.fillStyle = initial;
+		context!.fillStyle = color;
+		return context!.fillStyle as string;
+	};
+
+	const parsed = parse("#000000");
+
+	if (parsed !== parse("#ffffff")) {
+		return undefined;
+	}
+
+	if (parsed.startsWith("#")) {
+		return parsed;
+	}
+
+	// Translucent colors are serialized as "rgba(r, g, b, a)"
+	const [r, g, b] = parsed.match(/\d+(\.\d+)?/g)!.map(Number);
+	return fromRGB(r, g, b);
+}
+
+export function toRGB(hex: string): [number, number, number] {
+	return [
+		Number.parseInt(hex.slice(1, 3), 16),
+		Number.parseInt(hex.slice(3, 5), 16),
+		Number.parseInt(hex.slice(5, 7), 16)
+	];
+}
+
+/**
+ * @returns hue, saturation and value, each 0-100 (like Scratch)
+ */
+export function toHSV(hex: string): [number, number, number] {
+	const [r, g, b] = toRGB(hex).map(value => value / 255);
+	const max = Math.max(r, g, b);
+	const delta = max - Math.min(r, g, b);
+
+	let hue = 0;
+
+	if (delta) {
+		if (max === r) {
+			hue = ((g - b) / delta + 6) % 6;
+		} else if (max === g) {
+			hue = (b - r) / delta + 2;
+		} else {
+			hue = (r - g) / delta + 4;
+		}
+	}
+
+	return [hue / 6 * 100, max ? delta / max * 100 : 0, max * 100];
+}
+
+/**
+ * @param hue 0-100 (wraps around)
+ * @param saturation 0-100
+ * @param value 0-100
+ */
+export function fromHSV(hue: number, saturation: number, value: number) {
+	const h = (hue % 100 + 100) % 100 / 100 * 6;
+	const s = saturation / 100;
+	const v = value / 100;
+
+	const channel = (n: number) => {
+		const k = (n + h) % 6;
+		return Math.round((v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255);
+	};
+
+	return fromRGB(channel(5), channel(3), channel(1));
+}
@@ -0,0 +1,73 @@
+/**
+ * Converts between the coordinate systems of the stage:
+ *  - stage coordinates: origin in the center, y axis pointing up (Scratch)
+ *  - canvas coordinates: origin in the top-left corner, y axis pointing down,
+ *    in logical pixels of the stage (used by the DOM and the canvases)
+ *  - client coordinates: pixels of the window (mouse events)
+ */
+class Coordinates {
+    /**
+     * Ratio of client pixels to logical pixels.
+     */
+    scale = 1;
+
+    /**
+     * Offset of the stage in the container (client pixels).
+     */
+    left = 0;
+    top = 0;
+
+    constructor(readonly width: number, readonly height: number) {}
+
+    /**
+     * Scales the stage to fit the container, keeping the aspect ratio.
+     * The remaining space is split evenly on both sides (letterboxing).
+     * @param width Width of the container
+     * @param height Height of the container
+     */
+    fit(width: number, height: number) {
+        this.scale = Math.min(width / this.width, height / this.height);
+        this.left = (width - this.width * this.scale) / 2;
+        this.top = (height - this.height * this.scale) / 2;
+    }
+
+    /**
+     * @param x X coordinate on the stage
+     * @param y Y coordinate on the stage
+     * @returns X and Y coordinates on the canvas
+     */
+    toCanvas(x: number, y: number): [number, number] {
+        return [x + this.width / 2, this.height / 2 - y];
+    }
+
+    /**
+     * @param x X coordinate on the canvas
+     * @param y Y coordinate on the canvas
+     * @returns X and Y coordinates on the stage
+     */
+    fromCanvas(x: number, y: number): [number, number] {
+        return [x - this.width / 2, this.height / 2 - y];
+    }
+
+    /**
+     * @param x X coordinate of a mouse event
+     * @param y Y coordinate of a mouse event
+     * @returns X and Y coordinates on the stage
+     */
+    fromClient(x: number, y: number): [number, number] {
+        return this.fromCanvas(
+            (x - this.left) / this.scale,
+            (y - this.top) / this.scale
+        );
+    }
+
+    /**
+     * @param distance Distance in client pixels
+     * @returns Distance in logical pixels
+     */
+    fromClientDistance(distance: number) {
+        return distance / this.scale;
+    }
+}
+
+export default Coordinates;
@@ -1,18 +1,173 @@
+/**
+ * Number of rasterized scales kept per SVG costume.
+ */
+const maxRasters = 8;
+
 export default class Costume {
     width = 0;
     height = 0;
 
-    constructor(readonly src: string) {}
+    /**
+     * The loaded image, ready to be drawn on a canvas.
+     */
+    readonly image = new Image();
+
+    /**
+     * Alpha channel of the costume, one byte per pixel.
+     * Undefined if the image could not be read (e.g. CORS),
+     * in which case the whole costume is treated as opaque.
+     */
+    mask?: Uint8ClampedArray;
+
+    /**
+     * Bounding box of the opaque pixels (in costume pixels).
+     */
+    bounds = {left: 0, top: 0, right: 0, bottom: 0};
+
+    /**
+     * Rotation center (in costume pixels), the middle by default.
+     */
+    center: [number, number] = [0, 0];
+
+    /**
+     * SVG rasterized at the last requested scales, since
+     * clones sharing the costume may have different sizes.
+     */
+    private rasters = new Map<number, HTMLCanvasElement>();
+
+    private loading?: Promise<void>;
+
+    /**
+     * @param src URL of the image
+     * @param origin Rotation center in costume pixels (like Scratch's rotationCenterX/Y)
+     * @param resolution Image pixels per costume pixel (like Scratch's bitmapResolution)
+     */
+    constructor(readonly src: string, private readonly origin?: [number, number], readonly resolution = 1) {}
+
+    /**
+     * Whether the costume is an SVG, which can be drawn crisply at any size.
+     */
+    get isVector() {
+        return /^data:image\/svg\+xml|\.svg([?#]|$)/i.test(this.src);
+    }
+
+    /**
+     * Loads the image once, since clones share the costumes
+     * (and the masks) of their original.
+     */
+    load() {
+        return this.loading ??= this.decode();
+    }
 
-    async load() {
-        const img = new Image();
+    private async decode() {
+        const img = this.image;
         img.src = this.src;
 
         if (!img.complete) {
             await new Promise(resolve => img.addEventListener("load", resolve, {once: true}));
         }
 
-        this.width = img.width;
-        this.height = img.height;
+        this.width = img.width / this.resolution;
+        this.height = img.height / this.resolution;
+        this.bounds = {left: 0, top: 0, right: this.width, bottom: this.height};
+        this.center = this.origin ?? [this.width / 2, this.height / 2];
+
+        this.createMask(img);
+    }
+
+    /**
+     * @param scale Scale the costume is drawn at
+     * @returns the image to draw, rasterized at the scale if it is an SVG
+     */
+    getImage(scale: number): CanvasImageSource {
+        if (!this.isVector || !this.width || !this.height) {
+            return this.image;
+        }
+
+        let canvas = this.rasters.get(scale);
+
+        if (!canvas) {
+            canvas = document.createElement("canvas");
+            canvas.width = Math.max(1, Math.ceil(this.width * scale));
+            canvas.height = Math.max(1, Math.ceil(this.height * scale));
+            canvas.getContext("2d")!.drawImage(this.image, 0, 0, canvas.width, canvas.height);
+
+            // Keep a few, for the sizes in use
+            if (this.rasters.size >= maxRasters) {
+                this.rasters.delete(this.rasters.keys().next().value!);
+            }
+
+            this.rasters.set(scale, canvas);
+        }
+
+        return canvas;
+    }
+
+    /**
+     * The mask is made at the size of the costume,
+     * not of the image (for bitmap resolutions other than 1).
+     */
+    private createMask(img: HTMLImageElement) {
+        if (!this.width || !this.height) {
+            return;
+        }
+
+        const width = Math.ceil(this.width);
+        const height = Math.ceil(this.height);
+
+        const ctx = document.createElement("canvas").getContext("2d")!;
+        ctx.canvas.width = width;
+        ctx.canvas.height = height;
+        ctx.drawImage(img, 0, 0, width, height);
+
+        let data: Uint8ClampedArray;
+
+        try {
+            data = ctx.getImageData(0, 0, width, height).data;
+        } catch {
+            // Tainted canvas, fall back to the bounding box
+            return;
+        }
+
+        const mask = new Uint8ClampedArray(width * height);
+
+        let left = width;
+        let top = height;
+        let right = 0;
+        let bottom = 0;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const alpha = data[(y * width + x) * 4 + 3];
+
+                if (alpha) {
+                    mask[y * width + x] = alpha;
+                    left = Math.min(left, x);
+                    top = Math.min(top, y);
+                    right = Math.max(right, x + 1);
+                    bottom = Math.max(bottom, y + 1);
+                }
+            }
+        }
+
+        this.mask = mask;
+        this.bounds = right > left ? {left, top, right, bottom} : {left: 0, top: 0, right: 0, bottom: 0};
+    }
+
+    /**
+     * @param x X coordinate in costume pixels
+     * @param y Y coordinate in costume pixels
+     * @returns whether the pixel is not transparent
+     */
+    isOpaque(x: number, y: number) {
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+            return false;
+        }
+
+        if (!this.mask) {
+            return true;
+        }
+
+        return this.mask[Math.floor(y) * Math.ceil(this.width) + Math.floor(x)] > 0;
     }
-}
\ No newline at end of file
+}
@@ -1,41 +1,60 @@
 import Entity from "./entity";
-import {StopError} from "./utils";
+import {StopError, abort, getSignal, scheduler} from "./utils";
+import {Thread} from "./scheduler";
+import {ScrapError, collect} from "./errors";
+
+/**
+ * Fills in where the error happened, unless
+ * a nested method has already done so.
+ * @param error The error thrown by the method
+ * @param entity The entity whose method failed
+ * @param name Name of the method
+ * @param args Arguments of the method
+ * @returns the error
+ */
+function locate(error: unknown, entity: Entity, name: string | symbol, args: unknown[]) {
+    if (error instanceof ScrapError && !error.method) {
+        error.entity = entity.name;
+        error.method = String(name);
+        error.args = args;
+    }
+
+    return error;
+}
+
+/**
+ * Continues in the thread which called the method,
+ * even after the method awaited something.
+ * @param thread The thread (if any)
+ * @param fn The rest of the method
+ */
+function resume<T>(thread: Thread | undefined, fn: () => T) {
+    return thread ? thread.enter(fn) : fn();
+}
 
 /**
  * This decorator is used to decorate methods of the Entity class,
  * which should be used directly by the user. The execution of the
- * method is delayed by 33 ms, just like in the Scratch project.
+ * method is delayed until the next frame, just like in the Scratch project.
+ * In turbo mode, it is delayed only when the frame budget is exhausted.
  * @param method The method to decorate.
- * @param _context The context of the method.
+ * @param context The context of the method.
  * @returns Decorated method.
  */
 export function paced<A extends any[], T, E extends Entity>(
     fn: (this: E, ...args: A) => Promise<T>,
-    _context: ClassMethodDecoratorContext<E, typeof fn>
+    context: ClassMethodDecoratorContext<E, typeof fn>
 ) {
     return async function (this: E, ...args: A) {
-        return new Promise<T>((resolve, reject) => {
-            const controller = new AbortController();
-
-            const timeout = window.setTimeout(
-                () => {
-                    controller.abort();
-                    resolve(fn.apply(this, args));
-                },
-                this.pace
-            );
-
-            window.addEventListener(
-                "message",
-                e => {
-                    if (e.data === "STOP") {
-                        window.clearTimeout(timeout);
-                        reject(new StopError());
-                    }
-                },
-                {signal: controller.signal}
-            );
-        });
+        const thread = Thread.current;
+
+        await scheduler.yield(getSignal());
+
+        try {
+            return await resume(thread, () => fn.apply(this, args));
+        } catch (error) {
+            throw locate(error, this, context.name, args);
+        }
     };
 }
 
@@ -43,48 +62,62 @@ const STOP = Symbol("STOP");
 
 /**
  * This decorator is used to decorate methods of the Entity class,
- * which should be used directly by the user.
+ * which should be used directly by the user. The method is stopped
+ * together with the thread (or the project) which called it
+ * and it is held while the project is paused.
  * @param method The method to decorate.
- * @param _context The context of the method.
+ * @param context The context of the method.
  * @returns Decorated method.
  */
 export function method<A extends any[], T, E extends Entity>(
     fn: (this: E, ...args: A) => Promise<T>,
-    _context: ClassMethodDecoratorContext<E, typeof fn>
+    context: ClassMethodDecoratorContext<E, typeof fn>
 ) {
     return async function (this: E, ...args: A) {
+        const thread = Thread.current;
+        const signal = getSignal();
         const controller = new AbortController();
 
-        const result = await Promise.race([
-            fn.apply(this, args),
-            new Promise<typeof STOP>(
-                resolve => window.addEventListener(
-                    "message",
-                    e => {
-                        if (e.data === "STOP") {
-                            resolve(STOP);
-                        }
-                    },
-                    {signal: controller.signal}
-                )
-            )
-        ]);
+        if (scheduler.paused) {
+            await scheduler.hold(signal);
+        }
+
+        signal.throwIfAborted();
 
-        controller.abort();
+        let result: T | typeof STOP;
+
+        try {
+            result = await Promise.race([
+                resume(thread, () => fn.apply(this, args)),
+                new Promise<typeof STOP>(
+                    resolve => signal.addEventListener(
+                        "abort",
+                        () => resolve(STOP),
+                        {signal: controller.signal}
+                    )
+                )
+            ]);
+        } catch (error) {
+            throw locate(error, this, context.name, args);
+        } finally {
+            controller.abort();
+        }
 
         if (result === STOP) {
-            throw new StopError();
+            throw signal.reason;
         }
 
         return result;
     };
 }
 
+const threads = new WeakSet<Entity.Callback>();
+
 /**
  * This decorator is used to decorate events of the Entity class,
  * which should be used directly by the user.
- * Note: This decorator does not do anything, it is only used for
- * type checking and to make the code more readable.
+ * The callback (last argument) is wrapped, so that every
+ * invocation of it runs as a new thread in the scheduler.
  * @param method The method to decorate.
  * @param _context The context of the method.
  * @returns Decorated method.
@@ -92,4 +125,31 @@ export function method<A extends any[], T, E extends Entity>(
 export function event<A extends [...any[], Entity.Callback], E extends Entity>(
     fn: (this: E, ...args: A) => Promise<void>,
     _context: ClassMethodDecoratorContext<E, typeof fn>
-) {}
\ No newline at end of file
+) {
+    return function (this: E, ...args: A) {
+        const callback: Entity.Callback = args[args.length - 1];
+
+        if (!threads.has(callback)) {
+            const thread: Entity.Callback = async (self, ...data) => {
+                // Hats stay armed, but do nothing while stopped
+                // or while the entity is off the stage
+                if (abort.signal.aborted || !self.onStage) {
+                    return;
+                }
+
+                try {
+                    await scheduler.start(self, self => callback(self, ...data), abort.signal, self.signal).promise;
+                } catch (error) {
+                    if (!(error instanceof StopError)) {
+                        collect(error, self.name);
+                    }
+                }
+            };
+
+            threads.add(thread);
+            args[args.length - 1] = thread;
+        }
+
+        return fn.apply(this, args);
+    };
+}
\ No newline at end of file
@@ -1,4 +1,12 @@
 export * from "./utils";
+export {ScrapError, VariableError, TypeMismatchError, AssetError, SpriteError, uncaught} from "./errors";
+export {VirtualClock, setClock} from "./clock";
+export type {Clock} from "./clock";
+export {LocalStorage, MemoryStorage, setStorage} from "./storage";
+export type {Storage} from "./storage";
 export {submit as answer} from "./form";
+export * as Protocol from "./protocol";
+export * as Operators from "./operators";
+export * as SB3 from "./sb3";
 export {default as Sprite} from "./sprite";
 export {default as Stage} from "./stage";
\ No newline at end of file
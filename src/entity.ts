@@ -1,8 +1,14 @@
-import {abort, isTurbo} from "./utils";
+import {StopError, abort, getSignal, scheduler, stop} from "./utils";
+import {Thread} from "./scheduler";
+import {report, serialize} from "./protocol";
+import {AssetError, SpriteError, TypeMismatchError, VariableError, collect} from "./errors";
 import {event, method} from "./decorators";
 import Messages from "./messages";
 import {DefaultVariableValues, Variable, VariableType, isVariableType} from "./variables";
 import Timer from "./timer";
+import {load, persist} from "./storage";
+import Channel, {stopAll} from "./audio";
+import * as music from "./music";
 
 const toEvent = {
     clicked: "click",
@@ -17,6 +23,8 @@ const toEvent = {
 const backdrops = new Messages();
 const messages = new Messages();
 const timer = new Timer();
+let lastID = 0;
+const subscriptions = new Set<{entity: Entity, name: string, listener: Entity.VariableListener}>();
 
 abstract class Entity {
     readonly variables = new Map<string, Variable>();
@@ -29,15 +37,50 @@ abstract class Entity {
     };
     volume = 100;
 
-    pace = isTurbo ? 0 : 33;
-
     readonly images: Entity.Assets;
     readonly sounds: Entity.Assets;
 
     abstract element: HTMLElement;
+
+    /**
+     * Identifies the entity (clones share the id of their original).
+     */
+    abstract id: string;
+
+    /**
+     * Name of the entity ("Stage" for the stage),
+     * which the reports sent to the IDE refer to.
+     */
+    abstract name: string;
+
+    /**
+     * Identifies the entity in the storage, across reloads
+     * (undefined when its variables are not kept).
+     */
+    abstract readonly storageKey?: string;
+
     abstract whenFlag(fn: Entity.Callback): Promise<void>;
 
-    audios: HTMLAudioElement[] = [];
+    /**
+     * Callbacks of the green flag hats,
+     * run by the stage when the project starts.
+     */
+    readonly flags: Entity.Callback[] = [];
+
+    private controller = new AbortController();
+    private disposal = new AbortController();
+
+    soundEffects = {
+        pitch: 0,
+        pan: 0,
+    };
+
+    instrument: music.Instrument = "piano";
+
+    /**
+     * Plays the sounds of the entity.
+     */
+    private readonly channel = new Channel();
     current: string;
 
     constructor(options: Entity.Options) {
@@ -46,8 +89,11 @@ abstract class Entity {
         this.current = Object.keys(this.images)[options.current];
     }
 
+    /**
+     * @returns an id, unique even within the same millisecond
+     */
     protected generateID() {
-        return Date.now().toString(36);
+        return Date.now().toString(36) + (++lastID).toString(36);
     }
 
     protected getBackdrops() {
@@ -58,6 +104,93 @@ abstract class Entity {
         window.setTimeout(fn, 0, this);
     }
 
+    /**
+     * Aborted when all the scripts of the entity are stopped.
+     */
+    get signal() {
+        return this.controller.signal;
+    }
+
+    /**
+     * Stops all the scripts of the entity.
+     */
+    stopScripts() {
+        this.controller.abort(new StopError());
+        this.controller = new AbortController();
+    }
+
+    /**
+     * Aborted for good when the entity leaves the stage.
+     * Every listener the entity registers uses it.
+     */
+    get disposed() {
+        return this.disposal.signal;
+    }
+
+    /**
+     * Whether the hats of the entity respond.
+     */
+    get onStage() {
+        return !this.disposed.aborted;
+    }
+
+    /**
+     * Stops the scripts and the sounds of the entity and disarms its hats.
+     */
+    dispose() {
+        this.stopScripts();
+        this.channel.dispose();
+        this.disposal.abort();
+    }
+
+    /**
+     * Stops the sounds of this entity only.
+     */
+    protected stopSounds() {
+        this.channel.stop();
+    }
+
+    /**
+     * Compares entities, since `self` is not the entity itself.
+     * @param other Any entity, or the `self` of a script
+     * @returns whether it is this entity
+     * @example
+     * if (stage.getSprite("Cat")?.is(self)) { ... }
+     */
+    is(other: unknown) {
+        return Thread.unwrap(other) === this;
+    }
+
+    /**
+     * Stops the script which called this method.
+     */
+    @method
+    async stopThisScript() {
+        Thread.current?.stop(new StopError());
+        throw new StopError();
+    }
+
+    /**
+     * Stops all the other scripts of the entity.
+     */
+    @method
+    async stopOtherScripts() {
+        for (const thread of scheduler.threads) {
+            if (thread.entity === this && thread !== Thread.current) {
+                thread.stop(new StopError());
+            }
+        }
+    }
+
+    /**
+     * Stops the whole project.
+     */
+    @method
+    async stopAll() {
+        stop();
+        throw new StopError();
+    }
+
     /**
      * Clears the effects of the entity.
      */
@@ -108,7 +241,7 @@ abstract class Entity {
      */
     @method
     wait(seconds: number) {
-        return new Promise(resolve => window.setTimeout(resolve, seconds * 1000));
+        return scheduler.sleep(seconds * 1000, getSignal());
     }
 
     /**
@@ -127,8 +260,8 @@ abstract class Entity {
                 if (key === "any" || e.key === key) {
                     fn(this);
                 }
-            }, 
-            {signal: abort.signal}
+            },
+            {signal: this.disposed}
         );
     }
 
@@ -144,7 +277,7 @@ abstract class Entity {
                 fn(this);
                 e.stopPropagation();
             },
-            {signal: abort.signal}
+            {signal: this.disposed}
         );
     }
 
@@ -157,6 +290,10 @@ abstract class Entity {
         const listenerId = this.generateID();
 
         messages.listeners.push({msg, listenerId});
+        this.disposed.addEventListener("abort", () => {
+            messages.listeners = messages.listeners.filter(listener => listener.listenerId !== listenerId);
+        });
+
         messages.addEventListener(
             msg, 
             e => {
@@ -173,7 +310,7 @@ abstract class Entity {
                     )
                 );
             },
-            {signal: abort.signal}
+            {signal: this.disposed}
         );
     }
 
@@ -241,6 +378,10 @@ abstract class Entity {
         const listenerId = this.generateID();
 
         backdrops.listeners.push({msg: name, listenerId});
+        this.disposed.addEventListener("abort", () => {
+            backdrops.listeners = backdrops.listeners.filter(listener => listener.listenerId !== listenerId);
+        });
+
         backdrops.addEventListener(
             name,
             e => {
@@ -257,7 +398,7 @@ abstract class Entity {
                     )
                 );
             },
-            {signal: abort.signal}
+            {signal: this.disposed}
         );
     }
 
@@ -296,14 +437,7 @@ abstract class Entity {
      */
     @method
     async playSound(name: string) {
-        const audio = new Audio(this.sounds[name]);
-        audio.volume = this.volume / 100;
-        this.audios.push(audio);
-        audio.play();
-
-        audio.onended = () => {
-            this.audios = this.audios.filter(a => a !== audio);
-        };
+        this.channel.play(this.getAsset("sound", name)).catch(error => collect(error, this.name));
     }
 
     /**
@@ -313,17 +447,106 @@ abstract class Entity {
      */
     @method
     playSoundUntilDone(name: string) {
-        return new Promise<void>(resolve => {
-            const audio = new Audio(this.sounds[name]);
-            audio.volume = this.volume / 100;
-            this.audios.push(audio);
-            audio.play();
-
-            audio.onended = () => {
-                this.audios = this.audios.filter(a => a !== audio);
-                resolve();
-            };
-        });
+        return this.channel.play(this.getAsset("sound", name));
+    }
+
+    /**
+     * Stops the sounds of all the entities.
+     */
+    @method
+    async stopAllSounds() {
+        stopAll();
+    }
+
+    /**
+     * @param effect Sound effect to set
+     * @param value Pitch (10 per semitone) or pan (-100 left, 100 right)
+     */
+    @method
+    async setSoundEffect(effect: keyof Entity["soundEffects"], value: number) {
+        this.soundEffects[effect] = value;
+        this.updateSound();
+    }
+
+    /**
+     * @param effect Sound effect to change
+     * @param value Value to change the effect by
+     */
+    @method
+    async changeSoundEffect(effect: keyof Entity["soundEffects"], value: number) {
+        this.soundEffects[effect] += value;
+        this.updateSound();
+    }
+
+    @method
+    async clearSoundEffects() {
+        this.soundEffects.pitch = 0;
+        this.soundEffects.pan = 0;
+        this.updateSound();
+    }
+
+    /**
+     * Plays a note and waits for it to finish.
+     * @param note MIDI note (60 is the middle C)
+     * @param beats Duration of the note
+     */
+    @method
+    async playNote(note: number, beats: number) {
+        const ms = music.toMilliseconds(beats);
+        music.playNote(this.channel, this.instrument, note, ms);
+        await scheduler.sleep(ms, getSignal());
+    }
+
+    /**
+     * Plays a drum and waits for the beats.
+     * @param drum Drum to play
+     * @param beats Beats to wait for
+     */
+    @method
+    async playDrum(drum: music.Drum, beats: number) {
+        music.playDrum(this.channel, drum);
+        await scheduler.sleep(music.toMilliseconds(beats), getSignal());
+    }
+
+    /**
+     * @param beats Beats to wait for
+     */
+    @method
+    async rest(beats: number) {
+        await scheduler.sleep(music.toMilliseconds(beats), getSignal());
+    }
+
+    /**
+     * @param instrument Instrument for the next notes
+     */
+    @method
+    async setInstrument(instrument: music.Instrument) {
+        this.instrument = instrument;
+    }
+
+    /**
+     * Sets the tempo of all the entities.
+     * @param tempo Beats per minute (20-500)
+     */
+    @method
+    async setTempo(tempo: number) {
+        music.setTempo(tempo);
+    }
+
+    /**
+     * @param tempo Beats per minute to add
+     */
+    @method
+    async changeTempo(tempo: number) {
+        music.setTempo(music.tempo + tempo);
+    }
+
+    /**
+     * @returns beats per minute
+     */
+    @method
+    async getTempo() {
+        return music.tempo;
     }
 
     /**
@@ -335,7 +558,7 @@ abstract class Entity {
     @method
     async setVolume(volume: number) {
         this.volume = volume;
-        this.updateVolume();
+        this.updateSound();
     }
 
     /**
@@ -347,13 +570,12 @@ abstract class Entity {
     @method
     async changeVolume(volume: number) {
         this.volume += volume;
-        this.updateVolume();
+        this.updateSound();
     }
 
-    private updateVolume() {
-        for (const audio of this.audios) {
-            audio.volume = this.volume / 100;
-        }
+    private updateSound() {
+        this.volume = Math.min(Math.max(this.volume, 0), 100);
+        this.channel.set({volume: this.volume, ...this.soundEffects});
     }
 
     /**
@@ -362,7 +584,7 @@ abstract class Entity {
      */
     @method
     async getVariable(name: string) {
-        return this.variable(name)!.value;
+        return this.declared(name).value;
     }
 
     /**
@@ -372,17 +594,15 @@ abstract class Entity {
      */
     @method
     async setVariable(name: string, value: any) {
-        const variable = this.variable(name);
-
-        if (!variable) {
-            throw "Variable not declared";
-        }
+        const variable = this.declared(name);
 
         if (variable.types.some(type => !isVariableType(type, value))) {
-            throw "Invalid variable type";
+            throw new TypeMismatchError(name, variable.types, value);
         }
 
+        const previous = variable.value;
         variable.value = value;
+        this.notifyVariable(name, variable, previous);
 
         if (variable.visible) {
             this.updateVariables();
@@ -391,35 +611,124 @@ abstract class Entity {
 
     @method
     async changeVariable(name: string, value: number) {
-        const variable = this.variable(name);
-
-        if (!variable) {
-            throw "Variable not declared";
-        }
+        const variable = this.declared(name);
 
         if (variable.types.some(type => !isVariableType(type, value))) {
-            throw "Invalid variable type";
+            throw new TypeMismatchError(name, variable.types, value);
         }
 
+        const previous = variable.value;
         variable.value = value;
+        this.notifyVariable(name, variable, previous);
 
         if (variable.visible) {
             this.updateVariables();
         }
     }
 
+    /**
+     * Reports a change of the variable to the IDE,
+     * the storage and the subscribers, unless the value
+     * is the same. It doesn't refresh the watchers.
+     * @param name Name of the variable
+     * @param variable The variable (already changed)
+     * @param previous The value before the change
+     */
+    notifyVariable(name: string, variable: Variable, previous: unknown) {
+        if (Entity.isSame(variable.value, previous)) {
+            return;
+        }
+
+        // A sprite may change a variable of the stage
+        const owner = this.owner(name);
+
+        report({report: "variable", entity: owner.name, name, value: serialize(variable.value)});
+
+        if (owner.storageKey !== undefined) {
+            persist(owner.storageKey, name, variable).catch(error => collect(error, owner.name));
+        }
+
+        for (const subscription of subscriptions) {
+            if (subscription.entity.variable(subscription.name) === variable) {
+                // A failing listener must not fail the change
+                try {
+                    subscription.listener(variable.value, previous);
+                } catch (error) {
+                    collect(error, subscription.entity.name);
+                }
+            }
+        }
+    }
+
+    /**
+     * @returns whether the values are the same,
+     * or lists with the same items
+     */
+    private static isSame(a: unknown, b: unknown) {
+        if (Array.isArray(a) && Array.isArray(b)) {
+            return a.length === b.length && a.every((item, i) => Object.is(item, b[i]));
+        }
+
+        return Object.is(a, b);
+    }
+
+    /**
+     * Low-level API, for the IDE. The variable is looked up
+     * on every change, so it may be declared later.
+     * @param name Name of the variable (as seen by this entity)
+     * @param listener Called with the new and the old value
+     * @returns a function which unsubscribes the listener
+     * (done anyway when the entity is disposed)
+     */
+    subscribe(name: string, listener: Entity.VariableListener) {
+        const subscription = {entity: this, name, listener};
+        const unsubscribe = () => void subscriptions.delete(subscription);
+
+        if (!this.disposed.aborted) {
+            subscriptions.add(subscription);
+            this.disposed.addEventListener("abort", unsubscribe, {once: true});
+        }
+
+        return unsubscribe;
+    }
+
+    /**
+     * @param name Name of the variable to watch
+     * @param fn Function to execute with the new and the old value
+     */
+    @event
+    async whenVariableChanges(name: string, fn: Entity.VariableCallback) {
+        this.subscribe(name, (value, previous) => fn(this, value, previous));
+    }
+
     /**
      * Declares a variable.
      * @param name The name of the variable
-     * @param value The value of the variable
+     * @param args Types of the variable, optionally followed by options
+     * @example
+     * await this.declareVariable("high score", VariableType.Number, {persistent: true});
      */
     @method
-    async declareVariable(name: string, ...types: VariableType[]) {
-        this.variables.set(name, {
+    async declareVariable(name: string, ...args: VariableType[] | [...VariableType[], Entity.Declaration]) {
+        const last = args[args.length - 1];
+        const {persistent = false} = typeof last === "object" ? last : {};
+        const types = (args as (VariableType | Entity.Declaration)[]).filter(
+            (arg): arg is VariableType => typeof arg === "string"
+        );
+
+        const variable: Variable = {
             value: DefaultVariableValues[types[0]], 
             visible: false,
-            types
-        });
+            types,
+            persistent
+        };
+
+        if (persistent && this.storageKey !== undefined) {
+            // Keep the default value if it can't be loaded
+            await load(this.storageKey, name, variable).catch(error => collect(error, this.name));
+        }
+
+        this.variables.set(name, variable);
     }
 
     /**
@@ -427,7 +736,7 @@ abstract class Entity {
      */
     @method
     async hideVariable(name: string) {
-        const variable = this.variable(name)!;
+        const variable = this.declared(name);
         variable.visible = false;
         this.updateVariables();
     }
@@ -437,14 +746,153 @@ abstract class Entity {
      */
     @method
     async showVariable(name: string) {
-        const variable = this.variable(name)!;
+        const variable = this.declared(name);
         variable.visible = true;
         this.updateVariables();
     }
 
+    /**
+     * @param name Name of the list
+     * @param item Item to add to the end of the list
+     */
+    @method
+    async addToList(name: string, item: unknown) {
+        this.modifyList(name, list => list.push(item));
+    }
+
+    /**
+     * @param name Name of the list
+     * @param index Index (from 0) to insert the item at
+     * @param item Item to insert
+     */
+    @method
+    async insertAtList(name: string, index: number, item: unknown) {
+        this.modifyList(name, list => {
+            if (index >= 0 && index <= list.length) {
+                list.splice(index, 0, item);
+            }
+        });
+    }
+
+    /**
+     * @param name Name of the list
+     * @param index Index (from 0) of the item to delete
+     */
+    @method
+    async deleteOfList(name: string, index: number) {
+        this.modifyList(name, list => {
+            if (index >= 0 && index < list.length) {
+                list.splice(index, 1);
+            }
+        });
+    }
+
+    /**
+     * @param name Name of the list to empty
+     */
+    @method
+    async deleteAllOfList(name: string) {
+        this.modifyList(name, list => list.splice(0));
+    }
+
+    /**
+     * @param name Name of the list
+     * @param index Index (from 0) of the item to replace
+     * @param item The new item
+     */
+    @method
+    async replaceItemOfList(name: string, index: number, item: unknown) {
+        this.modifyList(name, list => {
+            if (index >= 0 && index < list.length) {
+                list[index] = item;
+            }
+        });
+    }
+
+    /**
+     * @param name Name of the list
+     * @param index Index (from 0) of the item
+     * @returns the item or, like Scratch, an empty string if there is none
+     */
+    @method
+    async itemOfList(name: string, index: number) {
+        const list = this.list(name);
+        return index >= 0 && index < list.length ? list[index] : "";
+    }
+
+    /**
+     * @param name Name of the list
+     * @param item Item to look for
+     * @returns the index (from 0) of the first matching item or -1
+     */
+    @method
+    async indexOfList(name: string, item: unknown) {
+        return this.list(name).findIndex(value => Entity.isEqual(value, item));
+    }
+
+    @method
+    async lengthOfList(name: string) {
+        return this.list(name).length;
+    }
+
+    @method
+    async listContains(name: string, item: unknown) {
+        return this.list(name).some(value => Entity.isEqual(value, item));
+    }
+
+    /**
+     * @param name Name of the list
+     * @returns the array of the list
+     * @throws TypeMismatchError if the variable is not a list
+     */
+    private list(name: string): unknown[] {
+        const {value} = this.declared(name);
+
+        if (!Array.isArray(value)) {
+            throw new TypeMismatchError(name, [VariableType.Array], value);
+        }
+
+        return value;
+    }
+
+    /**
+     * Modifies a list in place and refreshes its watcher.
+     * @param name Name of the list
+     * @param fn Function modifying the array
+     */
+    private modifyList(name: string, fn: (list: unknown[]) => void) {
+        const list = this.list(name);
+        const previous = [...list];
+
+        fn(list);
+
+        const variable = this.declared(name);
+        this.notifyVariable(name, variable, previous);
+
+        if (variable.visible) {
+            this.updateVariables();
+        }
+    }
+
+    /**
+     * Compares items like Scratch (case-insensitive).
+     */
+    private static isEqual(a: unknown, b: unknown) {
+        return a === b || String(a).toLowerCase() === String(b).toLowerCase();
+    }
+
+    /**
+     * Sends a line to the log of the IDE.
+     * @param contents What to log
+     */
+    @method
+    async log(contents: unknown) {
+        report({report: "log", entity: this.name, message: String(contents)});
+    }
+
     @method
     async getTimer() {
-        return (Date.now() - timer.now) / 1000;
+        return (scheduler.now() - timer.now) / 1000;
     }
 
     @method
@@ -460,11 +908,152 @@ abstract class Entity {
     variable(name: string) {
         return this.variables.get(name);
     }
+
+    /**
+     * @param name Name of the variable (as seen by this entity)
+     * @returns the entity which declared it
+     */
+    protected owner(name: string): Entity {
+        return this;
+    }
+
+    /**
+     * Like the "of" block of Scratch.
+     * @param target The entity or its name ("Stage" for the stage)
+     * @param attribute Name of the attribute or of a variable of the target
+     * @returns the value or, like Scratch, 0 if there is no such attribute
+     * @throws SpriteError if there is no such sprite
+     */
+    @method
+    async getAttributeOf(target: Entity | string, attribute: Entity.Attribute | (string & {})) {
+        const entity = typeof target === "string" ? this.getEntity(target) : target;
+
+        if (!entity) {
+            throw new SpriteError(String(target));
+        }
+
+        return entity.getAttribute(attribute);
+    }
+
+    /**
+     * @param name Name of the sprite or "Stage"
+     * @returns the entity, if there is one
+     */
+    protected abstract getEntity(name: string): Entity | undefined;
+
+    /**
+     * @param attribute Name of the attribute or of a local variable
+     * @returns the value of the attribute (0 if there is none)
+     */
+    protected getAttribute(attribute: string): unknown {
+        if (attribute === "volume") {
+            return this.volume;
+        }
+
+        return this.variables.get(attribute)?.value ?? 0;
+    }
+
+    /**
+     * @param name Name of the variable
+     * @returns the variable
+     * @throws VariableError if the variable is not declared
+     */
+    protected declared(name: string) {
+        const variable = this.variable(name);
+
+        if (!variable) {
+            throw new VariableError(name);
+        }
+
+        return variable;
+    }
+
+    /**
+     * @param kind Kind of the asset
+     * @param value Name or index of the asset
+     * @returns the name of the image or the URL of the sound
+     * @throws AssetError if there is no such asset
+     */
+    protected getAsset(kind: "costume" | "backdrop", value: string | number): string;
+    protected getAsset(kind: "sound", value: string): string;
+    protected getAsset(kind: AssetError["kind"], value: string | number) {
+        const assets = kind === "sound" ? this.sounds : this.images;
+        const name = typeof value === "number" ? Object.keys(assets)[value] : value;
+
+        if (name === undefined || !Object.prototype.hasOwnProperty.call(assets, name)) {
+            throw new AssetError(kind, value);
+        }
+
+        return kind === "sound" ? assets[name] : name;
+    }
+
+    /**
+     * @returns a copy of the state, which can be restored later.
+     */
+    getState(): Entity.State {
+        return {
+            current: this.current,
+            effects: {...this.effects},
+            soundEffects: {...this.soundEffects},
+            instrument: this.instrument,
+            volume: this.volume,
+            variables: Array.from(this.variables, ([name, variable]) => [
+                name,
+                {
+                    ...variable,
+                    value: Array.isArray(variable.value) ? [...variable.value] : variable.value
+                }
+            ])
+        };
+    }
+
+    /**
+     * @param state State returned by `getState`
+     * @param keepPersistent Whether persistent variables keep
+     * their current value instead of the one in the state
+     */
+    setState(state: Entity.State, keepPersistent = true) {
+        this.current = state.current;
+        this.effects = {...state.effects};
+        this.soundEffects = {...state.soundEffects};
+        this.instrument = state.instrument;
+        this.volume = state.volume;
+
+        const persistent = new Map(
+            Array.from(this.variables).filter(([, variable]) => variable.persistent)
+        );
+
+        this.variables.clear();
+
+        for (const [name, variable] of state.variables) {
+            // Persistent variables keep their (saved) value
+            if (keepPersistent && variable.persistent && persistent.has(name)) {
+                this.variables.set(name, persistent.get(name)!);
+                continue;
+            }
+
+            this.variables.set(name, {
+                ...variable,
+                value: Array.isArray(variable.value) ? [...variable.value] : variable.value
+            });
+        }
+
+        this.updateSound();
+        this.update();
+    }
 }
 
 declare namespace Entity {
     interface Callback {
-        (this: void, self: Entity): Promise<void>;
+        (this: void, self: Entity, ...args: any[]): Promise<void>;
+    }
+
+    interface VariableCallback {
+        (this: void, self: Entity, value: any, previous: any): Promise<void>;
+    }
+
+    interface VariableListener {
+        (value: any, previous: any): void;
     }
 
     interface Assets {
@@ -475,6 +1064,42 @@ declare namespace Entity {
         images: Assets;
         sounds: Assets;
         current: number;
+        /**
+         * Logical width of the stage (480 by default)
+         */
+        width?: number;
+        /**
+         * Logical height of the stage (360 by default)
+         */
+        height?: number;
+    }
+
+    type Attribute =
+        | "x position"
+        | "y position"
+        | "direction"
+        | "costume #"
+        | "costume name"
+        | "size"
+        | "volume"
+        | "backdrop #"
+        | "backdrop name";
+
+    interface Declaration {
+        /**
+         * Whether the value is saved to the storage
+         * of the engine and loaded when declared again.
+         */
+        persistent?: boolean;
+    }
+
+    interface State {
+        current: string;
+        effects: Entity["effects"];
+        soundEffects: Entity["soundEffects"];
+        instrument: music.Instrument;
+        volume: number;
+        variables: [string, Variable][];
     }
 }
 
@@ -0,0 +1,89 @@
+import {report, serialize} from "./protocol";
+import type {VariableType} from "./variables";
+
+/**
+ * Base class of the errors thrown by the engine.
+ * The decorators fill in where the error happened.
+ */
+export class ScrapError extends Error {
+    /**
+     * Name of the entity whose method failed.
+     */
+    entity?: string;
+
+    /**
+     * Name of the method which failed.
+     */
+    method?: string;
+
+    /**
+     * Arguments the method was called with.
+     */
+    args?: unknown[];
+
+    constructor(message: string) {
+        super(message);
+        this.name = "Scrap.ScrapError";
+    }
+}
+
+export class VariableError extends ScrapError {
+    constructor(readonly variable: string, message = `Variable "${variable}" is not declared.`) {
+        super(message);
+        this.name = "Scrap.VariableError";
+    }
+}
+
+export class TypeMismatchError extends ScrapError {
+    constructor(readonly variable: string, readonly types: VariableType[], readonly value: unknown) {
+        super(`Variable "${variable}" (${types.join(" | ")}) cannot hold ${JSON.stringify(value) ?? String(value)}.`);
+        this.name = "Scrap.TypeMismatchError";
+    }
+}
+
+export class AssetError extends ScrapError {
+    constructor(readonly kind: "costume" | "backdrop" | "sound", readonly asset: string | number) {
+        super(`There is no ${kind} "${asset}".`);
+        this.name = "Scrap.AssetError";
+    }
+}
+
+export class SpriteError extends ScrapError {
+    constructor(readonly sprite: string) {
+        super(`There is no sprite "${sprite}".`);
+        this.name = "Scrap.SpriteError";
+    }
+}
+
+/**
+ * Errors thrown by the scripts, which nobody caught.
+ * Cleared when the project starts.
+ */
+export const uncaught: unknown[] = [];
+
+/**
+ * Collects an uncaught error and reports it to the IDE.
+ * @param error The error
+ * @param entity Name of the entity whose script failed
+ */
+export function collect(error: unknown, entity: string) {
+    uncaught.push(error);
+
+    if (error instanceof ScrapError) {
+        report({
+            report: "error",
+            name: error.name,
+            message: error.message,
+            entity: error.entity ?? entity,
+            method: error.method,
+            args: error.args?.map(serialize)
+        });
+    } else {
+        report({
+            report: "error",
+            name: error instanceof Error ? error.name : "Error",
+            message: error instanceof Error ? error.message : String(error),
+            entity
+        });
+    }
+}
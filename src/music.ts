@@ -0,0 +1,186 @@
+import Channel, {getContext} from "./audio";
+
+/**
+ * Envelope and waveform of an instrument.
+ */
+interface Voice {
+    type: OscillatorType;
+    /**
+     * Seconds to reach the full volume
+     */
+    attack: number;
+    /**
+     * Seconds to fade out after the note
+     */
+    release: number;
+    /**
+     * Volume the note decays to (0-1)
+     */
+    sustain: number;
+}
+
+export const instruments = {
+    piano: {type: "triangle", attack: 0.01, release: 0.3, sustain: 0.3},
+    organ: {type: "sine", attack: 0.02, release: 0.1, sustain: 1},
+    guitar: {type: "sawtooth", attack: 0.01, release: 0.2, sustain: 0.2},
+    bass: {type: "triangle", attack: 0.01, release: 0.1, sustain: 0.6},
+    flute: {type: "sine", attack: 0.08, release: 0.15, sustain: 0.8},
+    clarinet: {type: "square", attack: 0.05, release: 0.1, sustain: 0.7},
+    "synth lead": {type: "sawtooth", attack: 0.01, release: 0.1, sustain: 0.8},
+    "synth pad": {type: "triangle", attack: 0.3, release: 0.6, sustain: 0.8},
+} satisfies Record<string, Voice>;
+
+export type Instrument = keyof typeof instruments;
+
+/**
+ * How a drum is made out of a tone and noise.
+ */
+interface Hit {
+    /**
+     * Tone sweeping from the first to the second frequency
+     */
+    tone?: [number, number];
+    /**
+     * Noise through a filter of the type at the frequency
+     */
+    noise?: [BiquadFilterType, number];
+    /**
+     * Seconds the drum sounds for
+     */
+    decay: number;
+}
+
+export const drums = {
+    "bass drum": {tone: [150, 40], decay: 0.4},
+    snare: {tone: [200, 100], noise: ["highpass", 1000], decay: 0.2},
+    "closed hi-hat": {noise: ["highpass", 7000], decay: 0.05},
+    "open hi-hat": {noise: ["highpass", 7000], decay: 0.3},
+    cymbal: {noise: ["highpass", 5000], decay: 1},
+    "hand clap": {noise: ["bandpass", 1500], decay: 0.15},
+    tom: {tone: [220, 110], decay: 0.3},
+    "wood block": {tone: [800, 800], decay: 0.05},
+    cowbell: {tone: [560, 560], noise: ["bandpass", 800], decay: 0.25},
+} satisfies Record<string, Hit>;
+
+export type Drum = keyof typeof drums;
+
+/**
+ * Beats per minute, shared by all the entities (like in Scratch).
+ */
+export let tempo = 60;
+
+/**
+ * @param value Beats per minute, limited to 20-500
+ */
+export function setTempo(value: number) {
+    tempo = Math.min(Math.max(value, 20), 500);
+}
+
+/**
+ * @param beats Number of beats
+ * @returns their duration in milliseconds
+ */
+export function toMilliseconds(beats: number) {
+    return Math.max(beats, 0) * 60000 / tempo;
+}
+
+/**
+ * @param channel Channel of the entity
+ * @param instrument The instrument
+ * @param note MIDI note (60 is the middle C)
+ * @param ms Duration of the note
+ */
+export function playNote(channel: Channel, instrument: Instrument, note: number, ms: number) {
+    const {type, attack, release, sustain}: Voice = instruments[instrument];
+    const context = getContext();
+    const start = context.currentTime;
+    const end = start + ms / 1000;
+
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+
+    oscillator.type = type;
+    oscillator.frequency.value = 440 * 2 ** ((Math.min(Math.max(note, 0), 130) - 69) / 12);
+
+    envelope.gain.setValueAtTime(0, start);
+    envelope.gain.linearRampToValueAtTime(1, start + attack);
+    envelope.gain.setTargetAtTime(sustain, start + attack, 0.1);
+    envelope.gain.setTargetAtTime(0, end, release / 3);
+
+    oscillator.connect(envelope);
+    envelope.connect(channel.input);
+
+    oscillator.start(start);
+    oscillator.stop(end + release);
+
+    return channel.track(oscillator, true);
+}
+
+/**
+ * @param channel Channel of the entity
+ * @param drum The drum
+ */
+export function playDrum(channel: Channel, drum: Drum) {
+    const {tone, noise, decay}: Hit = drums[drum];
+    const context = getContext();
+    const start = context.currentTime;
+    const end = start + decay;
+    const sounds: Promise<void>[] = [];
+
+    if (tone) {
+        const oscillator = context.createOscillator();
+        const envelope = context.createGain();
+
+        oscillator.frequency.setValueAtTime(tone[0], start);
+        oscillator.frequency.exponentialRampToValueAtTime(tone[1], end);
+        envelope.gain.setValueAtTime(1, start);
+        envelope.gain.exponentialRampToValueAtTime(0.001, end);
+
+        oscillator.connect(envelope);
+        envelope.connect(channel.input);
+        oscillator.start(start);
+        oscillator.stop(end);
+
+        sounds.push(channel.track(oscillator));
+    }
+
+    if (noise) {
+        const source = context.createBufferSource();
+        const filter = context.createBiquadFilter();
+        const envelope = context.createGain();
+
+        source.buffer = getNoise(context);
+        filter.type = noise[0];
+        filter.frequency.value = noise[1];
+        envelope.gain.setValueAtTime(1, start);
+        envelope.gain.exponentialRampToValueAtTime(0.001, end);
+
+        source.connect(filter);
+        filter.connect(envelope);
+        envelope.connect(channel.input);
+        source.start(start);
+        source.stop(end);
+
+        sounds.push(channel.track(source));
+    }
+
+    return Promise.all(sounds);
+}
+
+let noiseBuffer: AudioBuffer | undefined;
+
+/**
+ * @returns a second of white noise (created once)
+ */
+function getNoise(context: AudioContext) {
+    if (!noiseBuffer) {
+        noiseBuffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+        const data = noiseBuffer.getChannelData(0);
+
+        for (let i = 0; i < data.length; i++) {
+            data[i] = Math.random() * 2 - 1;
+        }
+    }
+
+    return noiseBuffer;
+}
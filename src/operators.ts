@@ -0,0 +1,244 @@
+import {VariableType, getVariableType} from "./variables";
+
+/**
+ * Converts the value to a number like Scratch
+ * (anything which is not a number is 0).
+ */
+export function toNumber(value: unknown): number {
+    switch (getVariableType(value)) {
+        case VariableType.Number:
+            return Number.isNaN(value) ? 0 : value as number;
+        case VariableType.Boolean:
+            return value ? 1 : 0;
+        default: {
+            const number = Number(toString(value));
+            return Number.isNaN(number) ? 0 : number;
+        }
+    }
+}
+
+/**
+ * Converts the value to a string like Scratch.
+ * Lists of single letters are joined without spaces
+ * and sprites are represented by their name.
+ */
+export function toString(value: unknown): string {
+    switch (getVariableType(value)) {
+        case VariableType.Array: {
+            const items = (value as unknown[]).map(toString);
+            return items.every(item => item.length === 1) ? items.join("") : items.join(" ");
+        }
+        case VariableType.Sprite:
+            return (value as {name: string}).name;
+        default:
+            return String(value);
+    }
+}
+
+/**
+ * Converts the value to a boolean like Scratch
+ * ("", "0" and "false" are false).
+ */
+export function toBoolean(value: unknown): boolean {
+    if (typeof value === "string") {
+        return value !== "" && value !== "0" && value.toLowerCase() !== "false";
+    }
+
+    return Boolean(value);
+}
+
+function isWhiteSpace(value: unknown) {
+    return value === null || (typeof value === "string" && !value.trim());
+}
+
+/**
+ * Compares the values like Scratch: as numbers
+ * when both are numbers, otherwise as strings
+ * (case-insensitive).
+ * @returns a negative number, 0 or a positive number
+ */
+export function compare(a: unknown, b: unknown) {
+    let n1 = Number(a);
+    let n2 = Number(b);
+
+    if (n1 === 0 && isWhiteSpace(a)) {
+        n1 = NaN;
+    }
+
+    if (n2 === 0 && isWhiteSpace(b)) {
+        n2 = NaN;
+    }
+
+    if (Number.isNaN(n1) || Number.isNaN(n2)) {
+        const s1 = toString(a).toLowerCase();
+        const s2 = toString(b).toLowerCase();
+        return s1 < s2 ? -1 : s1 > s2 ? 1 : 0;
+    }
+
+    // Infinity - Infinity is NaN
+    if (n1 === n2) {
+        return 0;
+    }
+
+    return n1 - n2;
+}
+
+export function add(a: unknown, b: unknown) {
+    return toNumber(a) + toNumber(b);
+}
+
+export function subtract(a: unknown, b: unknown) {
+    return toNumber(a) - toNumber(b);
+}
+
+export function multiply(a: unknown, b: unknown) {
+    return toNumber(a) * toNumber(b);
+}
+
+export function divide(a: unknown, b: unknown) {
+    return toNumber(a) / toNumber(b);
+}
+
+/**
+ * @returns a whole number when both limits are whole, a decimal otherwise.
+ */
+export function random(from: unknown, to: unknown) {
+    const low = Math.min(toNumber(from), toNumber(to));
+    const high = Math.max(toNumber(from), toNumber(to));
+
+    if (Number.isInteger(low) && Number.isInteger(high) && !/\./.test(`${toString(from)}${toString(to)}`)) {
+        return low + Math.floor(Math.random() * (high - low + 1));
+    }
+
+    return low + Math.random() * (high - low);
+}
+
+export function lessThan(a: unknown, b: unknown) {
+    return compare(a, b) < 0;
+}
+
+export function equals(a: unknown, b: unknown) {
+    return compare(a, b) === 0;
+}
+
+export function greaterThan(a: unknown, b: unknown) {
+    return compare(a, b) > 0;
+}
+
+export function and(a: unknown, b: unknown) {
+    return toBoolean(a) && toBoolean(b);
+}
+
+export function or(a: unknown, b: unknown) {
+    return toBoolean(a) || toBoolean(b);
+}
+
+export function not(a: unknown) {
+    return !toBoolean(a);
+}
+
+export function join(a: unknown, b: unknown) {
+    return toString(a) + toString(b);
+}
+
+/**
+ * @param index Index (from 0) of the letter
+ * @param value The string
+ * @returns the letter or an empty string
+ */
+export function letterOf(index: unknown, value: unknown) {
+    return toString(value).charAt(toNumber(index));
+}
+
+export function length(value: unknown) {
+    return toString(value).length;
+}
+
+/**
+ * @returns whether the first value contains the second (case-insensitive)
+ */
+export function contains(a: unknown, b: unknown) {
+    return toString(a).toLowerCase().includes(toString(b).toLowerCase());
+}
+
+/**
+ * @returns the remainder with the sign of the modulus, like Scratch
+ */
+export function mod(n: unknown, modulus: unknown) {
+    const m = toNumber(modulus);
+    let result = toNumber(n) % m;
+
+    if (result / m < 0) {
+        result += m;
+    }
+
+    return result;
+}
+
+export function round(n: unknown) {
+    return Math.round(toNumber(n));
+}
+
+export type MathOp =
+    | "abs"
+    | "floor"
+    | "ceiling"
+    | "sqrt"
+    | "sin"
+    | "cos"
+    | "tan"
+    | "asin"
+    | "acos"
+    | "atan"
+    | "ln"
+    | "log"
+    | "e ^"
+    | "10 ^";
+
+/**
+ * Trigonometric functions work in degrees and
+ * are rounded to 10 decimal places, like in Scratch.
+ */
+export function mathop(operator: MathOp, value: unknown) {
+    const n = toNumber(value);
+
+    switch (operator) {
+        case "abs":
+            return Math.abs(n);
+        case "floor":
+            return Math.floor(n);
+        case "ceiling":
+            return Math.ceil(n);
+        case "sqrt":
+            return Math.sqrt(n);
+        case "sin":
+            return Number(Math.sin(Math.PI * n / 180).toFixed(10));
+        case "cos":
+            return Number(Math.cos(Math.PI * n / 180).toFixed(10));
+        case "tan":
+            switch (n % 360) {
+                case -270:
+                case 90:
+                    return Infinity;
+                case -90:
+                case 270:
+                    return -Infinity;
+                default:
+                    return Number(Math.tan(Math.PI * n / 180).toFixed(10));
+            }
+        case "asin":
+            return Math.asin(n) * 180 / Math.PI;
+        case "acos":
+            return Math.acos(n) * 180 / Math.PI;
+        case "atan":
+            return Math.atan(n) * 180 / Math.PI;
+        case "ln":
+            return Math.log(n);
+        case "log":
+            return Math.log10(n);
+        case "e ^":
+            return Math.exp(n);
+        case "10 ^":
+            return 10 ** n;
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Version of the protocol, sent with every message.
+ */
+export const version = 1;
+
+/**
+ * Messages sent by the IDE to the engine.
+ */
+export type Command =
+    | {command: "start"}
+    | {command: "stop"}
+    | {command: "pause"}
+    | {command: "resume"}
+    | {command: "step"}
+    | {command: "turbo", enabled: boolean};
+
+/**
+ * Messages sent by the engine to the IDE.
+ */
+export type Report =
+    | {report: "started"}
+    | {report: "stopped"}
+    | {report: "error", name: string, message: string, entity?: string, method?: string, args?: Value[]}
+    | {report: "log", entity: string, message: string}
+    | {report: "variable", entity: string, name: string, value: Value};
+
+/**
+ * A value which survives `postMessage`.
+ */
+export type Value = string | number | boolean | null | Value[];
+
+/**
+ * The data of a message event.
+ */
+export type Message<T extends Command | Report> = T & {scrap: typeof version};
+
+const legacy: Record<string, Command> = {
+    START: {command: "start"},
+    STOP: {command: "stop"},
+    PAUSE: {command: "pause"},
+    RESUME: {command: "resume"},
+    STEP: {command: "step"},
+};
+
+/**
+ * @param data Data of a message event
+ * @returns the command, if the data is one
+ * (commands of another version of the protocol are ignored)
+ */
+export function parse(data: unknown): Command | undefined {
+    if (typeof data === "string") {
+        return legacy[data];
+    }
+
+    if (typeof data === "object" && data && "scrap" in data && "command" in data && data.scrap === version) {
+        return data as Message<Command>;
+    }
+}
+
+/**
+ * Sends a command to the engine.
+ * @param command The command
+ * @param target Window of the engine
+ */
+export function send(command: Command, target: Window = window) {
+    target.postMessage({scrap: version, ...command} satisfies Message<Command>, "*");
+}
+
+/**
+ * Sends a report to the IDE (the parent window).
+ * @param report The report
+ */
+export function report(report: Report) {
+    window.parent.postMessage({scrap: version, ...report} satisfies Message<Report>, "*");
+}
+
+/**
+ * @param value Any value
+ * @returns the value, which can be sent to the IDE
+ */
+export function serialize(value: unknown): Value {
+    if (Array.isArray(value)) {
+        return value.map(serialize);
+    }
+
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean" || value === null) {
+        return value;
+    }
+
+    return String(value);
+}
@@ -0,0 +1,202 @@
+import Entity from "./entity";
+import Sprite from "./sprite";
+import Stage from "./stage";
+import {VariableType} from "./variables";
+import {AssetError} from "./errors";
+
+const rotationStyles = {
+    "all around": 0,
+    "left-right": 1,
+    "don't rotate": 2,
+} as const;
+
+/**
+ * Builds the stage and the sprites of a Scratch 3 project.
+ * Only the scene and the data are imported, not the blocks.
+ * @param project Parsed `project.json` of the .sb3 file
+ * @param assets URLs of the assets, by their file name in the .sb3 file (`md5ext`)
+ * @returns the stage, with all the sprites added
+ */
+export async function load(project: Project, assets: Entity.Assets) {
+    const stageTarget = project.targets.find(target => target.isStage);
+
+    if (!stageTarget) {
+        throw new Error("The project has no stage.");
+    }
+
+    const stage = new Stage(toOptions(stageTarget, assets));
+    await declare(stage, stageTarget, project.monitors, null);
+
+    if (stageTarget.tempo !== undefined) {
+        await stage.setTempo(stageTarget.tempo);
+    }
+
+    const targets = project.targets
+        .filter((target): target is Target.Sprite => !target.isStage)
+        .sort((a, b) => a.layerOrder - b.layerOrder);
+
+    for (const target of targets) {
+        const sprite = new Sprite({
+            ...toOptions(target, assets),
+            name: target.name,
+            centers: Object.fromEntries(
+                target.costumes.map(costume => {
+                    const resolution = costume.bitmapResolution ?? 1;
+                    return [costume.name, [costume.rotationCenterX / resolution, costume.rotationCenterY / resolution]];
+                })
+            ),
+            resolutions: Object.fromEntries(
+                target.costumes.map(costume => [costume.name, costume.bitmapResolution ?? 1])
+            ),
+            x: target.x,
+            y: target.y,
+            direction: target.direction,
+            size: target.size,
+            visible: target.visible,
+            draggable: target.draggable,
+            rotationStyle: rotationStyles[target.rotationStyle] ?? 0
+        });
+
+        sprite.id = target.name;
+        await sprite.addTo(stage);
+        await declare(sprite, target, project.monitors, target.name);
+    }
+
+    return stage;
+}
+
+/**
+ * @param target Scratch target
+ * @param assets URLs of the assets
+ * @returns options of the entity (costumes and sounds)
+ */
+function toOptions(target: Target, assets: Entity.Assets): Entity.Options {
+    const toAssets = (list: Asset[], kind: AssetError["kind"]) => Object.fromEntries(
+        list.map(asset => [asset.name, toURL(asset, assets, kind)])
+    );
+
+    return {
+        images: toAssets(target.costumes, target.isStage ? "backdrop" : "costume"),
+        sounds: toAssets(target.sounds, "sound"),
+        current: target.currentCostume
+    };
+}
+
+/**
+ * @param asset Scratch costume or sound
+ * @param assets URLs of the assets
+ * @param kind Kind of the asset, for the error
+ * @returns the URL of the asset
+ * @throws {AssetError} if its file is missing
+ */
+function toURL(asset: Asset, assets: Entity.Assets, kind: AssetError["kind"]) {
+    const file = asset.md5ext ?? `${asset.assetId}.${asset.dataFormat}`;
+
+    if (!(file in assets)) {
+        throw new AssetError(kind, `${asset.name} (${file})`);
+    }
+
+    return assets[file];
+}
+
+/**
+ * Declares the variables and the lists of the target
+ * and shows those with a visible monitor.
+ * @param entity The entity to declare them on
+ * @param target Scratch target
+ * @param monitors Monitors of the project
+ * @param spriteName Name of the sprite (null for the stage)
+ */
+async function declare(entity: Entity, target: Target, monitors: Monitor[] = [], spriteName: string | null) {
+    await entity.setVolume(target.volume);
+
+    const visible = new Set(
+        monitors
+            .filter(monitor => monitor.visible && (monitor.spriteName ?? null) === spriteName)
+            .map(monitor => monitor.params.VARIABLE ?? monitor.params.LIST)
+    );
+
+    for (const [name, value] of Object.values(target.variables)) {
+        await entity.declareVariable(name, VariableType.Any);
+        await entity.setVariable(name, value);
+
+        if (visible.has(name)) {
+            await entity.showVariable(name);
+        }
+    }
+
+    for (const [name, values] of Object.values(target.lists)) {
+        await entity.declareVariable(name, VariableType.Array);
+        await entity.setVariable(name, [...values]);
+
+        if (visible.has(name)) {
+            await entity.showVariable(name);
+        }
+    }
+}
+
+/**
+ * The parts of `project.json` which are imported.
+ */
+export interface Project {
+    targets: (Target.Stage | Target.Sprite)[];
+    monitors?: Monitor[];
+}
+
+export interface Target {
+    isStage: boolean;
+    name: string;
+    variables: Record<string, [name: string, value: string | number | boolean]>;
+    lists: Record<string, [name: string, values: (string | number | boolean)[]]>;
+    costumes: Costume[];
+    sounds: Asset[];
+    currentCostume: number;
+    volume: number;
+}
+
+export declare namespace Target {
+    interface Stage extends Target {
+        isStage: true;
+        tempo?: number;
+    }
+
+    interface Sprite extends Target {
+        isStage: false;
+        x: number;
+        y: number;
+        direction: number;
+        size: number;
+        visible: boolean;
+        draggable: boolean;
+        layerOrder: number;
+        rotationStyle: keyof typeof rotationStyles;
+    }
+}
+
+export interface Asset {
+    name: string;
+    assetId: string;
+    dataFormat: string;
+    md5ext?: string;
+}
+
+export interface Costume extends Asset {
+    /**
+     * Rotation center in image pixels
+     */
+    rotationCenterX: number;
+    rotationCenterY: number;
+    /**
+     * Image pixels per costume pixel (2 for most bitmaps)
+     */
+    bitmapResolution?: number;
+}
+
+export interface Monitor {
+    spriteName?: string | null;
+    visible: boolean;
+    params: {
+        VARIABLE?: string;
+        LIST?: string;
+    };
+}
@@ -0,0 +1,310 @@
+import type Entity from "./entity";
+import {clock} from "./clock";
+
+/**
+ * Threads by the `self` they gave to their script.
+ */
+const threads = new WeakMap<object, Thread>();
+
+/**
+ * A running script, started by a hat (event) callback.
+ */
+export class Thread {
+    /**
+     * The thread whose code is being executed (synchronously).
+     */
+    static current?: Thread;
+
+    readonly promise: Promise<void>;
+
+    /**
+     * The entity as seen by the script. Calling its methods
+     * marks this thread as current, so they can be stopped.
+     * It is a proxy, not the entity itself: the engine unwraps
+     * it before comparing entities and scripts should compare
+     * them with `is`.
+     */
+    readonly self: Entity;
+
+    private readonly controller = new AbortController();
+
+    /**
+     * Aborted when the thread is stopped or finished.
+     */
+    readonly signal = this.controller.signal;
+
+    /**
+     * @param entity The entity the thread belongs to
+     * @param callback The script to run
+     * @param signals Signals which stop the thread (project, entity)
+     */
+    constructor(readonly entity: Entity, callback: Entity.Callback, signals: AbortSignal[]) {
+        for (const signal of signals) {
+            if (signal.aborted) {
+                this.stop(signal.reason);
+            } else {
+                signal.addEventListener("abort", () => this.stop(signal.reason), {signal: this.signal});
+            }
+        }
+
+        this.self = new Proxy(entity, {
+            get: (target, key) => {
+                const value = Reflect.get(target, key);
+
+                if (typeof value !== "function") {
+                    return value;
+                }
+
+                return (...args: unknown[]) => this.enter(() => value.apply(target, args));
+            }
+        });
+
+        threads.set(this.self, this);
+
+        this.promise = this.enter(() => callback(this.self)).finally(() => this.controller.abort());
+    }
+
+    /**
+     * @param self The `self` of a script
+     * @returns its thread, if it is one
+     */
+    static of(self: unknown) {
+        return typeof self === "object" && self ? threads.get(self) : undefined;
+    }
+
+    /**
+     * @param value Any value
+     * @returns the entity, if the value is the `self` of a script,
+     * otherwise the value
+     */
+    static unwrap<T>(value: T): T {
+        return (Thread.of(value)?.entity as T | undefined) ?? value;
+    }
+
+    /**
+     * Runs the function with this thread as the current one.
+     * @param fn Function to run
+     * @returns the result of the function
+     */
+    enter<T>(fn: () => T) {
+        const previous = Thread.current;
+        Thread.current = this;
+
+        try {
+            return fn();
+        } finally {
+            Thread.current = previous;
+        }
+    }
+
+    /**
+     * @param reason Rejection reason of the pending operations
+     */
+    stop(reason: unknown) {
+        this.controller.abort(reason);
+    }
+}
+
+type Waiting = {
+    resolve: VoidFunction;
+    reject: (reason: unknown) => void;
+};
+
+/**
+ * Paces all the threads, so that they
+ * yield to the screen once per frame.
+ * Dispatches "pause" and "resume" events.
+ */
+class Scheduler extends EventTarget {
+    /**
+     * Frames per second (Scratch uses 30).
+     */
+    framerate = 30;
+
+    /**
+     * The portion of a frame the threads may
+     * run for before yielding in turbo mode.
+     */
+    budget = 0.75;
+
+    readonly threads = new Set<Thread>();
+
+    /**
+     * Time of the current frame.
+     */
+    time = 0;
+
+    private queue: Waiting[] = [];
+    private requested = false;
+
+    /**
+     * Time spent paused, excluded from `now`.
+     */
+    private offset = 0;
+    private pausedAt?: number;
+
+    constructor(public turbo: boolean) {
+        super();
+    }
+
+    get paused() {
+        return this.pausedAt !== undefined;
+    }
+
+    /**
+     * @returns the current time in milliseconds (stands still while paused)
+     */
+    now() {
+        return (this.pausedAt ?? clock.now()) - this.offset;
+    }
+
+    /**
+     * Holds all the threads at their next paced operation.
+     */
+    pause() {
+        if (!this.paused) {
+            this.pausedAt = clock.now();
+            this.dispatchEvent(new Event("pause"));
+        }
+    }
+
+    resume() {
+        if (this.pausedAt !== undefined) {
+            this.offset += clock.now() - this.pausedAt;
+            this.pausedAt = undefined;
+            this.dispatchEvent(new Event("resume"));
+            this.request();
+        }
+    }
+
+    /**
+     * While paused, lets every thread run one operation.
+     */
+    step() {
+        if (this.paused) {
+            this.flush();
+        }
+    }
+
+    /**
+     * Holds the thread while the scheduler is paused.
+     * @param signal Rejects the promise when aborted
+     */
+    hold(signal: AbortSignal) {
+        if (this.paused) {
+            return this.frame(signal);
+        }
+
+        return signal.aborted ? Promise.reject(signal.reason) : Promise.resolve();
+    }
+
+    /**
+     * Starts a new thread.
+     * @param entity The entity the thread belongs to
+     * @param callback The script to run
+     * @param signals Signals which stop the thread
+     * @returns the thread
+     */
+    start(entity: Entity, callback: Entity.Callback, ...signals: AbortSignal[]) {
+        const thread = new Thread(entity, callback, signals);
+
+        this.threads.add(thread);
+        thread.promise.then(
+            () => this.threads.delete(thread),
+            () => this.threads.delete(thread)
+        );
+
+        return thread;
+    }
+
+    /**
+     * Lets other threads run and the screen redraw.
+     * In turbo mode, the thread continues immediately
+     * until the frame budget is exhausted.
+     * @param signal Rejects the promise when aborted
+     */
+    yield(signal: AbortSignal) {
+        if (!this.paused && this.turbo && this.now() - this.time < this.budget * 1000 / this.framerate) {
+            return signal.aborted ? Promise.reject(signal.reason) : Promise.resolve();
+        }
+
+        return this.frame(signal);
+    }
+
+    /**
+     * @param signal Rejects the promise when aborted
+     * @returns a promise that resolves on the next frame
+     */
+    frame(signal: AbortSignal) {
+        return new Promise<void>((resolve, reject) => {
+            if (signal.aborted) {
+                return reject(signal.reason);
+            }
+
+            const waiting: Waiting = {
+                resolve: () => {
+                    signal.removeEventListener("abort", abort);
+                    resolve();
+                },
+                reject
+            };
+
+            const abort = () => {
+                this.queue = this.queue.filter(item => item !== waiting);
+                reject(signal.reason);
+            };
+
+            signal.addEventListener("abort", abort, {once: true});
+            this.queue.push(waiting);
+            this.request();
+        });
+    }
+
+    /**
+     * Waits for the specified time, frame by frame.
+     * @param ms Milliseconds to wait
+     * @param signal Rejects the promise when aborted
+     */
+    async sleep(ms: number, signal: AbortSignal) {
+        const end = this.now() + ms;
+
+        do {
+            await this.frame(signal);
+        } while (this.time < end);
+    }
+
+    private request() {
+        if (!this.requested) {
+            this.requested = true;
+            clock.requestFrame(this.tick);
+        }
+    }
+
+    private tick = () => {
+        this.requested = false;
+
+        if (this.paused) {
+            return;
+        }
+
+        // Skip the screen refreshes between two frames
+        if (this.now() - this.time < 900 / this.framerate) {
+            return this.request();
+        }
+
+        this.flush();
+    };
+
+    private flush() {
+        this.time = this.now();
+
+        const queue = this.queue;
+        this.queue = [];
+
+        for (const {resolve} of queue) {
+            resolve();
+        }
+    }
+}
+
+export default Scheduler;
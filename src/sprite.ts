@@ -3,9 +3,13 @@ import Entity from "./entity";
 import type Stage from "./stage";
 import TextUI from "./textui";
 import {event, method, paced} from "./decorators";
-import {StopError, abort} from "./utils";
+import {StopError, getSignal, scheduler} from "./utils";
+import {Thread} from "./scheduler";
 import {target} from "./form";
 import Costumes from "./costumes";
+import {fromHSV, toHSV, toHex, toRGB} from "./color";
+import {ScrapError} from "./errors";
+import type Coordinates from "./coordinates";
 
 class Sprite extends Entity {
     element = document.createElement("div");
@@ -18,6 +22,17 @@ class Sprite extends Entity {
 
     id = this.generateID();
 
+    /**
+     * Name of the sprite, to find it on the stage.
+     * Clones have the name of their original.
+     */
+    name: string;
+
+    /**
+     * The sprite this one is a clone of (never a clone itself).
+     */
+    original?: Sprite;
+
     readonly costume = new Costumes(this);
     get backdrop() {
         return this.stage.backdrop;
@@ -26,10 +41,47 @@ class Sprite extends Entity {
     // Pen
     isPenDown = false;
     penSize = 1;
-    penColor = "#222222";
+
+    /**
+     * Color of the pen as Scratch's parameters (0-100).
+     */
+    penParams: Sprite.PenParams = {
+        color: 0,
+        saturation: 0,
+        brightness: 34 / 255 * 100, // #222222
+        transparency: 0,
+    };
+
+    get penColor() {
+        return fromHSV(this.penParams.color, this.penParams.saturation, this.penParams.brightness);
+    }
+
+    /**
+     * Takes any CSS color, like "red" or "rgb(255, 0, 0)".
+     */
+    set penColor(color: string) {
+        const hex = toHex(color);
+
+        if (!hex) {
+            throw new ScrapError(`"${color}" is not a color.`);
+        }
+
+        const [hue, saturation, brightness] = toHSV(hex);
+        this.penParams = {color: hue, saturation, brightness, transparency: 0};
+    }
 
     textUi?: TextUI;
 
+    /**
+     * Rotation centers of the costumes, by their name.
+     */
+    readonly centers: Sprite.Centers;
+
+    /**
+     * Bitmap resolutions of the costumes, by their name.
+     */
+    readonly resolutions: Sprite.Resolutions;
+
     constructor({
         x = 0,
         y = 0,
@@ -38,10 +90,18 @@ class Sprite extends Entity {
         direction = 90,
         visible = true,
         size = 100,
+        name,
+        centers = {},
+        resolutions = {},
         ...entity
     }: Sprite.Options) {
         super(entity);
 
+        this.centers = centers;
+        this.resolutions = resolutions;
+
+        this.name = name ?? "Sprite1";
+
         this.img.alt = "";
         this.img.draggable = false;
         this.img.src = entity.images[this.current];
@@ -57,13 +117,9 @@ class Sprite extends Entity {
 
         // Set up costumes
         for (const key in entity.images) {
-            this.costumes.set(key, new Costume(entity.images[key]));
+            this.costumes.set(key, new Costume(entity.images[key], centers[key], resolutions[key]));
         }
 
-        this.updateXY = Sprite.updateXY.bind(this);
-        window.addEventListener("resize", this.updateXY);
-
-        this.element.style.transformOrigin = "center center";
         this.element.style.position = "absolute";
         this.img.style.width = "100%";
         this.img.style.height = "100%";
@@ -106,16 +162,19 @@ class Sprite extends Entity {
     }
 
     private updateSize() {
+        const [x, y] = this.offset;
+
         this.element.style.width = `${this.width}px`;
         this.element.style.height = `${this.height}px`;
+        this.element.style.transformOrigin = `${x}px ${y}px`;
     }
 
-    private static updateXY(this: Sprite) {
-        const x = this.x - this.width / 2;
-        const y = -this.y - this.height / 2;
+    private updateXY() {
+        const [x, y] = this.stage.coordinates.toCanvas(this.x, this.y);
+        const [offsetX, offsetY] = this.offset;
 
-        this.element.style.left = `${x + this.stage.width / 2}px`;
-        this.element.style.top = `${y + this.stage.height / 2}px`;
+        this.element.style.left = `${x - offsetX}px`;
+        this.element.style.top = `${y - offsetY}px`;
     }
 
     private updateFilter() {
@@ -142,7 +201,7 @@ class Sprite extends Entity {
 
     private updateDraggable() {
         if (this.draggable) {
-            this.element.addEventListener("mousedown", this, {signal: abort.signal});
+            this.element.addEventListener("mousedown", this, {signal: this.disposed});
         } else {
             this.element.removeEventListener("mousedown", this);
         }
@@ -185,8 +244,8 @@ class Sprite extends Entity {
         this.element.insertBefore(image, this.img);
 
         const mousemove = (e: MouseEvent) => {
-            this.x = x + e.clientX - startX;
-            this.y = y - e.clientY + startY;
+            this.x = x + this.stage.coordinates.fromClientDistance(e.clientX - startX);
+            this.y = y - this.stage.coordinates.fromClientDistance(e.clientY - startY);
 
             // In case the image is changed
             // while dragging
@@ -212,6 +271,11 @@ class Sprite extends Entity {
     addTo(stage: Stage) {
         this.stage = stage;
         stage.sprites.push(this);
+
+        if (!this.isClone) {
+            stage.register(this);
+        }
+
         stage.element.appendChild(this.element);
         return this.load();
     }
@@ -222,26 +286,106 @@ class Sprite extends Entity {
 
     @event
     async whenFlag(fn: Entity.Callback) {
+        this.flags.push(fn);
         this.stage.toggleFlag(true);
-
-        this.stage.flag.addEventListener(
-            "click",
-            () => {
-                fn(this);
-                this.stage.toggleFlag(false);
-            },
-            {once: true, signal: abort.signal}
-        );
     }
 
+    /**
+     * Clones are removed for good, other sprites
+     * come back when the project restarts.
+     * Deleting a sprite again does nothing.
+     */
     @method
     async delete() {
+        if (this.isClone) {
+            this.dispose();
+        } else {
+            this.remove();
+        }
+    }
+
+    /**
+     * Takes the sprite off the stage. Its hats
+     * stay armed, but they do nothing meanwhile.
+     */
+    private remove() {
         this.stage.sprites = this.stage.sprites.filter(sprite => sprite !== this);
-        this.stage.element.removeChild(this.element);
+        this.element.remove();
+        this.textUi?.delete();
+        delete this.textUi;
+        this.stopScripts();
+        this.stopSounds();
+    }
+
+    /**
+     * Removes the sprite from the stage for good.
+     */
+    override dispose() {
+        if (this.disposed.aborted) {
+            return;
+        }
+
+        this.remove();
+        super.dispose();
+    }
+
+    override get onStage() {
+        return super.onStage && this.stage?.sprites.includes(this);
     }
 
+    /**
+     * Deletes the sprite, if it is a clone.
+     */
+    @method
+    async deleteThisClone() {
+        if (this.isClone) {
+            await this.delete();
+        }
+    }
+
+    get isClone() {
+        return this.original !== undefined;
+    }
+
+    /**
+     * Clones don't keep their variables.
+     */
+    get storageKey() {
+        return this.isClone ? undefined : this.name;
+    }
+
+    /**
+     * The other clones of the (original) sprite.
+     */
+    get clones(): Sprite[] {
+        const original: Sprite = this.original ?? this;
+        return this.stage.sprites.filter(sprite => sprite.original === original && sprite !== this);
+    }
+
+    /**
+     * @returns the clone or, when the stage
+     * reached its clone limit, undefined.
+     */
     @method
     async clone() {
+        return this.createClone();
+    }
+
+    /**
+     * @param sprite The sprite to clone
+     * @returns the clone or, when the stage
+     * reached its clone limit, undefined.
+     */
+    @method
+    async createCloneOf(sprite: Sprite) {
+        return sprite.createClone();
+    }
+
+    private createClone() {
+        if (this.stage.sprites.filter(sprite => sprite.isClone).length >= this.stage.cloneLimit) {
+            return undefined;
+        }
+
         const clone = new Sprite({
             x: this.x,
             y: this.y,
@@ -252,10 +396,26 @@ class Sprite extends Entity {
             rotationStyle: this.rotationStyle,
             current: this.costume.index,
             images: this.images,
-            sounds: this.sounds
+            sounds: this.sounds,
+            name: this.name,
+            centers: this.centers,
+            resolutions: this.resolutions
         });
 
-        clone.variable = this.variable.bind(this);
+        // Local variables are copied and then diverge, like in Scratch
+        for (const [name, variable] of this.variables) {
+            clone.variables.set(name, {
+                ...variable,
+                value: Array.isArray(variable.value) ? [...variable.value] : variable.value
+            });
+        }
+
+        clone.isPenDown = this.isPenDown;
+        clone.penSize = this.penSize;
+        clone.penParams = {...this.penParams};
+
+        clone.costumes = this.costumes;
+        clone.original = this.original ?? this;
         clone.id = this.id;
         clone.addTo(this.stage);
 
@@ -263,6 +423,8 @@ class Sprite extends Entity {
             "ScrapSpriteClone",
             {detail: clone}
         ));
+
+        return clone;
     }
 
     @method
@@ -281,7 +443,7 @@ class Sprite extends Entity {
                     e.stopPropagation();
                 }
             },
-            {signal: abort.signal}
+            {signal: this.disposed}
         );
     }
 
@@ -293,12 +455,7 @@ class Sprite extends Entity {
         this.y = y;
 
         if (this.isPenDown) {
-            this.stage.pen.beginPath();
-            this.stage.pen.moveTo(this.stage.width / 2 + this.x, this.stage.height / 2 + this.y * -1);
-            this.stage.pen.lineTo(this.stage.width / 2 + prevX, this.stage.height / 2 + prevY * -1);
-            this.stage.pen.lineWidth = this.penSize;
-            this.stage.pen.strokeStyle = this.penColor;
-            this.stage.pen.stroke();
+            this.drawLine(prevX, prevY);
         }
 
         this.updateXY();
@@ -312,39 +469,20 @@ class Sprite extends Entity {
      * @param y the y coordinate to glide to
      * @returns a promise that resolves when the glide is done
      */
-    // No decorator! The stop logic is handled in the method itself.
-    glide(seconds: number, x: number, y: number) {
-        return new Promise<void>((resolve, reject) => {
-            const controller = new AbortController();
-
-            let i = 0;
-            const framesPerSecond = 1000 / this.pace;
-            const stepX = (x - this.x) / (seconds * framesPerSecond);
-            const stepY = (y - this.y) / (seconds * framesPerSecond);
-
-            const int = setInterval(() => {
-                i++;
-                this.motion(this.x + stepX, this.y + stepY);
-                if (i / framesPerSecond >= seconds) {
-                    clearInterval(int);
-                    this.motion(x, y);
-                    controller.abort();
-                    resolve();
-                }
-            }, this.pace);
-
-            window.addEventListener(
-                "message",
-                function stop(e) {
-                    if (e.data === "STOP") {
-                        clearInterval(int);
-                        window.removeEventListener("message", stop);
-                        reject(new StopError());
-                    }
-                },
-                {signal: controller.signal}
-            );
-        });
+    // No decorator! The scheduler rejects the frames when stopped.
+    async glide(seconds: number, x: number, y: number) {
+        const signal = getSignal();
+        const startX = this.x;
+        const startY = this.y;
+        const start = scheduler.now();
+
+        let progress = 0;
+
+        while (progress < 1) {
+            await scheduler.frame(signal);
+            progress = seconds > 0 ? Math.min(1, (scheduler.time - start) / (seconds * 1000)) : 1;
+            this.motion(startX + (x - startX) * progress, startY + (y - startY) * progress);
+        }
     }
 
     @paced
@@ -497,10 +635,11 @@ class Sprite extends Entity {
 
     @method
     async switchCostumeTo(value: string | number) {
-        const name = typeof value === "number" ? Object.keys(this.images)[value] : value;
+        const name = this.getAsset("costume", value);
         this.current = name;
         this.updateCostume();
         this.updateSize();
+        this.updateXY();
         this.textUi?.update();
     }
 
@@ -529,12 +668,16 @@ class Sprite extends Entity {
     async setSize(size: number) {
         this.size = size;
         this.updateSize();
+        this.updateXY();
+        this.textUi?.update();
     }
 
     @paced
     async changeSize(size: number) {
         this.size += size;
         this.updateSize();
+        this.updateXY();
+        this.textUi?.update();
     }
 
     @method
@@ -571,16 +714,26 @@ class Sprite extends Entity {
 
     @method
     async thinkWait(contents: unknown, seconds: number) {
-        await this.think(contents);
-        await this.wait(seconds);
-        await this.think("");
+        await this.speakWait("think", contents, seconds);
     }
 
     @method
     async sayWait(contents: unknown, seconds: number) {
-        await this.say(contents);
-        await this.wait(seconds);
-        await this.say("");
+        await this.speakWait("say", contents, seconds);
+    }
+
+    /**
+     * The calls after the first `await` are made in the thread
+     * of the caller too, so that they stop with it (instead of
+     * clearing the bubble of another script later).
+     */
+    private async speakWait(speak: "say" | "think", contents: unknown, seconds: number) {
+        const thread = Thread.current;
+        const resume = <T>(fn: () => T) => thread ? thread.enter(fn) : fn();
+
+        await this[speak](contents);
+        await resume(() => this.wait(seconds));
+        await resume(() => this[speak](""));
     }
 
     @method
@@ -592,8 +745,10 @@ class Sprite extends Entity {
         this.textUi = new TextUI(this, "ask", text, askId);
 
         return new Promise<string>((resolve, reject) => {
+            const signal = getSignal();
+
             const stop = () => {
-                abort.signal.removeEventListener("abort", stop);
+                signal.removeEventListener("abort", stop);
                 this.textUi?.delete();
                 delete this.textUi;
                 reject(new StopError());
@@ -602,16 +757,16 @@ class Sprite extends Entity {
             target.addEventListener(
                 askId,
                 e => {
-                    abort.signal.removeEventListener("abort", stop);
+                    signal.removeEventListener("abort", stop);
                     const {detail} = e as CustomEvent<string>;
                     this.textUi?.delete();
                     delete this.textUi;
                     resolve(detail);
                 },
-                {once: true, signal: abort.signal}
+                {once: true, signal}
             );
 
-            abort.signal.addEventListener("abort", stop);
+            signal.addEventListener("abort", stop);
         });
     }
 
@@ -620,57 +775,182 @@ class Sprite extends Entity {
         this.stage.pen.clearRect(0, 0, this.stage.width, this.stage.height);
     }
 
+    /**
+     * Draws the sprite the way it appears on the stage.
+     * @param ctx Context of a stage-sized canvas
+     */
+    draw(ctx: CanvasRenderingContext2D) {
+        const costume = this.costumes.get(this.current)!;
+        const {width, height} = this;
+        const [x, y] = this.offset;
+
+        ctx.save();
+        ctx.filter = this.toFilter();
+        ctx.translate(...this.stage.coordinates.toCanvas(this.x, this.y));
+        ctx.rotate(this.angle);
+        ctx.scale(this.flipped ? -1 : 1, 1);
+        ctx.drawImage(costume.getImage(this.size / 100), -x, -y, width, height);
+        ctx.restore();
+    }
+
     @method
-    stamp() {
-        if (!this.visible) {
-            return Promise.resolve();
+    async stamp() {
+        if (this.visible) {
+            this.draw(this.stage.pen);
         }
+    }
 
-        return new Promise<void>((resolve, reject) => {
-            const costume = this.costumes.get(this.current)!;
+    /**
+     * CSS color of the pen, including its transparency.
+     */
+    private get penStyle() {
+        const [red, green, blue] = toRGB(this.penColor);
+        return `rgba(${red}, ${green}, ${blue}, ${1 - this.penParams.transparency / 100})`;
+    }
 
-            this.stage.pen.save();
-            this.stage.pen.filter = this.toFilter();
+    /**
+     * Draws a path on the pen layer with the pen of the sprite.
+     * @param path Builds the path, with points in stage coordinates
+     * @param filled Whether to fill the path instead of outlining it
+     */
+    private drawPath(path: (pen: CanvasRenderingContext2D, toCanvas: Coordinates["toCanvas"]) => void, filled = false) {
+        const pen = this.stage.pen;
+        const {coordinates} = this.stage;
+
+        pen.beginPath();
+        path(pen, (x, y) => coordinates.toCanvas(x, y));
+        pen.lineWidth = this.penSize;
+        pen.lineCap = "round";
+        pen.lineJoin = "round";
+
+        if (filled) {
+            pen.fillStyle = this.penStyle;
+            pen.fill();
+        } else {
+            pen.strokeStyle = this.penStyle;
+            pen.stroke();
+        }
+    }
 
-            const {x, y, stage, rotationStyle, direction, width, height} = this;
+    /**
+     * Draws a line from the point to the sprite
+     * (a dot, if the point is where the sprite is).
+     */
+    private drawLine(x: number, y: number) {
+        // Zero-length lines are not always drawn
+        if (x === this.x && y === this.y) {
+            this.drawPath((pen, toCanvas) => {
+                pen.arc(...toCanvas(x, y), this.penSize / 2, 0, 2 * Math.PI);
+            }, true);
+            return;
+        }
+
+        this.drawPath((pen, toCanvas) => {
+            pen.moveTo(...toCanvas(x, y));
+            pen.lineTo(...toCanvas(this.x, this.y));
+        });
+    }
+
+    /**
+     * @param radius Radius of the circle around the sprite
+     * @param filled Whether to fill the circle
+     */
+    @method
+    async drawCircle(radius: number, filled = false) {
+        this.drawPath((pen, toCanvas) => {
+            pen.arc(...toCanvas(this.x, this.y), Math.abs(radius), 0, 2 * Math.PI);
+        }, filled);
+    }
+
+    /**
+     * @param width Width of the rectangle around the sprite
+     * @param height Height of the rectangle
+     * @param filled Whether to fill the rectangle
+     */
+    @method
+    async drawRectangle(width: number, height: number, filled = false) {
+        this.drawPath((pen, toCanvas) => {
+            pen.rect(...toCanvas(this.x - width / 2, this.y + height / 2), width, height);
+        }, filled);
+    }
+
+    /**
+     * @param points Corners of the polygon in stage coordinates
+     * @param filled Whether to fill the polygon
+     */
+    @method
+    async drawPolygon(points: [number, number][], filled = false) {
+        this.drawPath((pen, toCanvas) => {
+            for (const [x, y] of points) {
+                pen.lineTo(...toCanvas(x, y));
+            }
+
+            pen.closePath();
+        }, filled);
+    }
 
-            const imgX = x + stage.width / 2;
-            const imgY = stage.height / 2 - y;
-            const radians = (((direction - 90 + 360) % 360) * Math.PI) / 180;
+    /**
+     * Draws an arc around the sprite, clockwise
+     * from one direction to the other.
+     * @param radius Radius of the arc
+     * @param from Direction where the arc starts (0 is up, 90 is right)
+     * @param to Direction where the arc ends
+     * @param filled Whether to fill it (as a pie slice)
+     */
+    @method
+    async drawArc(radius: number, from: number, to: number, filled = false) {
+        const toAngle = (direction: number) => (direction - 90) * Math.PI / 180;
 
-            if (rotationStyle === 0) {
-                this.stage.pen.translate(imgX, imgY);
-                this.stage.pen.rotate(radians);
-            } else if (rotationStyle === 1) {
-                this.stage.pen.scale((Math.floor(this.direction / 180) * 2 - 1) * -1, 1);
+        this.drawPath((pen, toCanvas) => {
+            if (filled) {
+                pen.moveTo(...toCanvas(this.x, this.y));
             }
 
-            const image = new Image();
-
-            image.onload = () => {
-                this.stage.pen.drawImage(
-                    image,
-                    0,
-                    0,
-                    image.width,
-                    image.height,
-                    -width / 2,
-                    -height / 2,
-                    width,
-                    height
-                );
-                this.stage.pen.restore();
-                resolve();
-            };
+            pen.arc(...toCanvas(this.x, this.y), Math.abs(radius), toAngle(from), toAngle(to));
 
-            image.onerror = reject;
-            image.src = costume.src;
+            if (filled) {
+                pen.closePath();
+            }
+        }, filled);
+    }
+
+    /**
+     * Draws a bezier curve from the sprite to the point.
+     * @param x1 X of the first control point
+     * @param y1 Y of the first control point
+     * @param x2 X of the second control point
+     * @param y2 Y of the second control point
+     * @param x X of the end
+     * @param y Y of the end
+     */
+    @method
+    async drawCurve(x1: number, y1: number, x2: number, y2: number, x: number, y: number) {
+        this.drawPath((pen, toCanvas) => {
+            pen.moveTo(...toCanvas(this.x, this.y));
+            pen.bezierCurveTo(...toCanvas(x1, y1), ...toCanvas(x2, y2), ...toCanvas(x, y));
         });
     }
 
+    /**
+     * Writes the text on the pen layer, centered on the sprite.
+     * @param text Text to write
+     * @param size Font size
+     */
+    @method
+    async writeText(text: string, size = 16) {
+        const pen = this.stage.pen;
+
+        pen.font = `${size}px Arial, Helvetica, sans-serif`;
+        pen.textAlign = "center";
+        pen.textBaseline = "middle";
+        pen.fillStyle = this.penStyle;
+        pen.fillText(String(text), ...this.stage.coordinates.toCanvas(this.x, this.y));
+    }
+
     @method
     async penDown() {
         this.isPenDown = true;
+        this.drawLine(this.x, this.y);
     }
 
     @method
@@ -683,6 +963,24 @@ class Sprite extends Entity {
         this.penColor = color;
     }
 
+    /**
+     * @param param Parameter to set
+     * @param value 0-100 (the color wraps around)
+     */
+    @method
+    async setPenColorParam(param: keyof Sprite.PenParams, value: number) {
+        this.penParams[param] = param === "color" ? (value % 100 + 100) % 100 : Math.min(Math.max(value, 0), 100);
+    }
+
+    /**
+     * @param param Parameter to change
+     * @param value Value to change the parameter by
+     */
+    @method
+    async changePenColorParam(param: keyof Sprite.PenParams, value: number) {
+        await this.setPenColorParam(param, this.penParams[param] + value);
+    }
+
     @method
     async setPenSize(size: number) {
         this.penSize = size;
@@ -699,34 +997,122 @@ class Sprite extends Entity {
     }
 
     private touchingEdge() {
-        const {width, height, x, y} = this;
+        const {left, right, top, bottom} = this.getBounds();
 
-        if (x + width / 2 > this.stage.width / 2) {
+        if (right > this.stage.width / 2) {
             return "right";
         }
-        if (x - width / 2 < -1 * (this.stage.width / 2)) {
+        if (left < -1 * (this.stage.width / 2)) {
             return "left";
         }
-        if (y + height / 2 > this.stage.height / 2) {
+        if (top > this.stage.height / 2) {
             return "top";
         }
-        if (y - height / 2 < -1 * (this.stage.height / 2)) {
+        if (bottom < -1 * (this.stage.height / 2)) {
             return "bottom";
         }
 
         return null;
     }
 
+    /**
+     * Rotation applied to the costume, in radians.
+     */
+    private get angle() {
+        return this.rotationStyle === 0 ? (this.direction - 90) * Math.PI / 180 : 0;
+    }
+
+    /**
+     * Whether the costume is mirrored (left-right rotation style).
+     */
+    private get flipped() {
+        return this.rotationStyle === 1 && Math.floor(this.direction / 180) * 2 - 1 === 1;
+    }
+
+    /**
+     * Converts a point on the stage to a pixel of the current costume.
+     * @param x X coordinate on the stage
+     * @param y Y coordinate on the stage
+     * @returns X and Y coordinates in costume pixels
+     */
+    private toCostume(x: number, y: number): [number, number] {
+        const costume = this.costumes.get(this.current)!;
+        const {angle} = this;
+        const scale = this.size / 100;
+
+        const dx = x - this.x;
+        const dy = this.y - y;
+
+        let localX = (dx * Math.cos(angle) + dy * Math.sin(angle)) / scale;
+        const localY = (dy * Math.cos(angle) - dx * Math.sin(angle)) / scale;
+
+        if (this.flipped) {
+            localX *= -1;
+        }
+
+        return [localX + costume.center[0], localY + costume.center[1]];
+    }
+
+    /**
+     * Converts a pixel of the current costume to a point on the stage.
+     * @param x X coordinate in costume pixels
+     * @param y Y coordinate in costume pixels
+     * @returns X and Y coordinates on the stage
+     */
+    private fromCostume(x: number, y: number): [number, number] {
+        const costume = this.costumes.get(this.current)!;
+        const {angle} = this;
+        const scale = this.size / 100;
+
+        let localX = (x - costume.center[0]) * scale;
+        const localY = (y - costume.center[1]) * scale;
+
+        if (this.flipped) {
+            localX *= -1;
+        }
+
+        return [
+            this.x + localX * Math.cos(angle) - localY * Math.sin(angle),
+            this.y - (localX * Math.sin(angle) + localY * Math.cos(angle))
+        ];
+    }
+
+    /**
+     * @returns the axis-aligned bounding box of the opaque pixels on the stage.
+     */
+    getBounds(): Sprite.Bounds {
+        const {left, top, right, bottom} = this.costumes.get(this.current)!.bounds;
+
+        const corners = [
+            this.fromCostume(left, top),
+            this.fromCostume(right, top),
+            this.fromCostume(right, bottom),
+            this.fromCostume(left, bottom)
+        ];
+
+        const xs = corners.map(([x]) => x);
+        const ys = corners.map(([, y]) => y);
+
+        return {
+            left: Math.min(...xs),
+            right: Math.max(...xs),
+            top: Math.max(...ys),
+            bottom: Math.min(...ys)
+        };
+    }
+
+    /**
+     * @param x X coordinate on the stage
+     * @param y Y coordinate on the stage
+     * @returns whether the sprite has an opaque pixel at the point
+     */
+    containsPoint(x: number, y: number) {
+        return this.costumes.get(this.current)!.isOpaque(...this.toCostume(x, y));
+    }
+
     @method
     async isTouchingMouse() {
-        const {width, height, x, y, mouseX, mouseY} = this;
-
-        return (
-            mouseX > x - width / 2 &&
-            mouseX < x + width / 2 &&
-            mouseY > y - height / 2 &&
-            mouseY < y + height / 2
-        );
+        return this.visible && this.containsPoint(this.mouseX, this.mouseY);
     }
 
     @method
@@ -736,23 +1122,174 @@ class Sprite extends Entity {
 
     @method
     async isTouching(sprite: Sprite) {
-        const {width, height} = this;
-        const {width: spriteWidth, height: spriteHeight} = sprite;
+        if (this.is(sprite) || !this.visible || !sprite.visible) {
+            return false;
+        }
+
+        const a = this.getBounds();
+        const b = sprite.getBounds();
+
+        // Cheap check first
+        const left = Math.max(a.left, b.left);
+        const right = Math.min(a.right, b.right);
+        const top = Math.min(a.top, b.top);
+        const bottom = Math.max(a.bottom, b.bottom);
+
+        if (left >= right || bottom >= top) {
+            return false;
+        }
+
+        for (let y = Math.floor(bottom); y < top; y++) {
+            for (let x = Math.floor(left); x < right; x++) {
+                if (this.containsPoint(x + 0.5, y + 0.5) && sprite.containsPoint(x + 0.5, y + 0.5)) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Renders a part of the stage into a canvas.
+     * @param bounds Area of the stage to render (stage coordinates)
+     * @param sprites Sprites to draw over the backdrop and the pen layer
+     * @param layers Whether to include the backdrop and the pen layer
+     * @returns the rendered pixels, top-left pixel at `bounds.left, bounds.top`
+     */
+    private render(bounds: Sprite.Bounds, sprites: Sprite[], layers = true) {
+        const ctx = document.createElement("canvas").getContext("2d")!;
+
+        const [left, top] = this.stage.coordinates.toCanvas(bounds.left, bounds.top);
+
+        ctx.canvas.width = Math.max(1, bounds.right - bounds.left);
+        ctx.canvas.height = Math.max(1, bounds.top - bounds.bottom);
+        ctx.translate(-left, -top);
+
+        if (layers) {
+            ctx.drawImage(this.stage.ctx.canvas, 0, 0);
+            ctx.drawImage(this.stage.pen.canvas, 0, 0);
+        }
+
+        for (const sprite of sprites) {
+            if (sprite.visible) {
+                sprite.draw(ctx);
+            }
+        }
+
+        return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height).data;
+    }
+
+    /**
+     * @returns the sprite's bounds clipped to the stage and rounded to whole pixels
+     */
+    private getStageBounds(): Sprite.Bounds {
+        const bounds = this.getBounds();
+
+        return {
+            left: Math.floor(Math.max(bounds.left, -this.stage.width / 2)),
+            right: Math.ceil(Math.min(bounds.right, this.stage.width / 2)),
+            top: Math.ceil(Math.min(bounds.top, this.stage.height / 2)),
+            bottom: Math.floor(Math.max(bounds.bottom, -this.stage.height / 2))
+        };
+    }
+
+    /**
+     * Calls the callback for every opaque pixel of the sprite.
+     * @param bounds Area returned by `getStageBounds`
+     * @param fn Receives the index of the pixel in the `render` output
+     * @returns true if the callback returned true for any pixel
+     */
+    private somePixel(bounds: Sprite.Bounds, fn: (index: number) => boolean) {
+        const width = bounds.right - bounds.left;
+
+        for (let y = bounds.top; y > bounds.bottom; y--) {
+            for (let x = bounds.left; x < bounds.right; x++) {
+                if (this.containsPoint(x + 0.5, y - 0.5)) {
+                    if (fn(((bounds.top - y) * width + (x - bounds.left)) * 4)) {
+                        return true;
+                    }
+                }
+            }
+        }
 
+        return false;
+    }
+
+    private static matchesColor(data: Uint8ClampedArray, i: number, [r, g, b]: number[], tolerance: number) {
         return (
-            this.x + width / 2 > sprite.x - spriteWidth / 2 &&
-            this.x - width / 2 < sprite.x + spriteWidth / 2 &&
-            this.y + height / 2 > sprite.y - spriteHeight / 2 &&
-            this.y - height / 2 < sprite.y + spriteHeight / 2
+            data[i + 3] !== 0 &&
+            Math.abs(data[i] - r) <= tolerance &&
+            Math.abs(data[i + 1] - g) <= tolerance &&
+            Math.abs(data[i + 2] - b) <= tolerance
+        );
+    }
+
+    /**
+     * Checks whether the sprite touches a color
+     * of the backdrop, the pen layer or other sprites.
+     * @param color Hex color
+     * @param tolerance Maximum difference of each RGB channel
+     */
+    @method
+    async isTouchingColor(color: string, tolerance = 8) {
+        if (!this.visible) {
+            return false;
+        }
+
+        const bounds = this.getStageBounds();
+
+        if (bounds.left >= bounds.right || bounds.bottom >= bounds.top) {
+            return false;
+        }
+
+        const rgb = toRGB(color);
+        const stage = this.render(bounds, this.stage.sprites.filter(sprite => sprite !== this));
+
+        return this.somePixel(bounds, i => Sprite.matchesColor(stage, i, rgb, tolerance));
+    }
+
+    /**
+     * Checks whether a color of the sprite touches
+     * a color of the backdrop, the pen layer or other sprites.
+     * @param myColor Hex color of the sprite
+     * @param otherColor Hex color of the stage
+     * @param tolerance Maximum difference of each RGB channel
+     */
+    @method
+    async colorIsTouchingColor(myColor: string, otherColor: string, tolerance = 8) {
+        if (!this.visible) {
+            return false;
+        }
+
+        const bounds = this.getStageBounds();
+
+        if (bounds.left >= bounds.right || bounds.bottom >= bounds.top) {
+            return false;
+        }
+
+        const mine = toRGB(myColor);
+        const other = toRGB(otherColor);
+
+        const self = this.render(bounds, [this], false);
+        const stage = this.render(bounds, this.stage.sprites.filter(sprite => sprite !== this));
+
+        return this.somePixel(
+            bounds,
+            i => Sprite.matchesColor(self, i, mine, tolerance) && Sprite.matchesColor(stage, i, other, tolerance)
         );
     }
 
     @method
     async isTouchingBackdropColor(color: string) {
         const {width, height} = this;
+        const [offsetX, offsetY] = this.offset;
 
-        const x = Math.round(this.x - this.stage.width / 2);
-        const y = Math.round(this.stage.height / 2 - this.y);
+        // The costume is placed by its rotation center, like when drawn
+        const [x, y] = this.stage.coordinates.toCanvas(
+            Math.round(this.x - offsetX),
+            Math.round(this.y + offsetY)
+        );
 
         const {data} = this.stage.ctx.getImageData(x, y, width, height);
 
@@ -793,6 +1330,15 @@ class Sprite extends Entity {
         this.stage.updateVariables();
     }
 
+    /**
+     * Position of the rotation center in the sprite's element (in stage pixels).
+     */
+    get offset(): [number, number] {
+        const [x, y] = this.costumes.get(this.current)!.center;
+        const scale = this.size / 100;
+        return [x * scale, y * scale];
+    }
+
     get width() {
         return this.costumes.get(this.current)!.width * (this.size / 100);
     }
@@ -803,9 +1349,70 @@ class Sprite extends Entity {
 
     [Symbol.toStringTag] = "Sprite";
 
+    protected override getEntity(name: string) {
+        return this.stage.getEntity(name);
+    }
+
+    protected override getAttribute(attribute: string) {
+        switch (attribute) {
+            case "x position":
+                return this.x;
+            case "y position":
+                return this.y;
+            case "direction":
+                return this.direction;
+            case "costume #":
+                return this.costume.index;
+            case "costume name":
+                return this.costume.name;
+            case "size":
+                return this.size;
+            default:
+                return super.getAttribute(attribute);
+        }
+    }
+
     override variable(name: string) {
         return this.variables.get(name) ?? this.stage.variable(name);
     }
+
+    protected override owner(name: string): Entity {
+        return this.variables.has(name) ? this : this.stage;
+    }
+
+    override getState(): Sprite.State {
+        return {
+            ...super.getState(),
+            x: this.x,
+            y: this.y,
+            direction: this.direction,
+            size: this.size,
+            visible: this.visible,
+            draggable: this.draggable,
+            rotationStyle: this.rotationStyle,
+            isPenDown: this.isPenDown,
+            penSize: this.penSize,
+            penParams: {...this.penParams}
+        };
+    }
+
+    override setState(state: Sprite.State, keepPersistent = true) {
+        this.x = state.x;
+        this.y = state.y;
+        this.direction = state.direction;
+        this.size = state.size;
+        this.visible = state.visible;
+        this.draggable = state.draggable;
+        this.rotationStyle = state.rotationStyle;
+        this.isPenDown = state.isPenDown;
+        this.penSize = state.penSize;
+        this.penParams = {...state.penParams};
+
+        this.textUi?.delete();
+        delete this.textUi;
+
+        super.setState(state, keepPersistent);
+    }
 }
 
 declare namespace Sprite {
@@ -819,11 +1426,53 @@ declare namespace Sprite {
         rotationStyle: 0 | 1 | 2;
     }
 
-    type Options = Partial<Init> & Entity.Options;
-}
+    interface Centers {
+        [costume: string]: [number, number];
+    }
 
-interface Sprite extends Sprite.Init {
-    updateXY(): void;
+    interface Resolutions {
+        [costume: string]: number;
+    }
+
+    interface Options extends Partial<Init>, Entity.Options {
+        /**
+         * Name of the sprite ("Sprite1" by default),
+         * renumbered if another sprite has it.
+         */
+        name?: string;
+        /**
+         * Rotation centers of the costumes (in costume
+         * pixels), by their name. The middle by default.
+         */
+        centers?: Centers;
+        /**
+         * Image pixels per costume pixel of the costumes,
+         * by their name (like Scratch's bitmapResolution). 1 by default.
+         */
+        resolutions?: Resolutions;
+    }
+
+    interface State extends Entity.State, Init {
+        isPenDown: boolean;
+        penSize: number;
+        penParams: PenParams;
+    }
+
+    interface PenParams {
+        color: number;
+        saturation: number;
+        brightness: number;
+        transparency: number;
+    }
+
+    interface Bounds {
+        left: number;
+        right: number;
+        top: number;
+        bottom: number;
+    }
 }
 
+interface Sprite extends Sprite.Init {}
+
 export default Sprite;
\ No newline at end of file
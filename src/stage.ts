@@ -1,11 +1,15 @@
+import Coordinates from "./coordinates";
 import Costumes from "./costumes";
 import {event, method} from "./decorators";
 import Entity from "./entity";
 import Sprite from "./sprite";
-import {abort} from "./utils";
-import {VariableType} from "./variables";
+import {scheduler, start} from "./utils";
+import {Thread} from "./scheduler";
+import {parse} from "./protocol";
+import * as audio from "./audio";
+import {Variable, VariableType} from "./variables";
 
-export default class Stage extends Entity {
+class Stage extends Entity {
     element = document.createElement("div");
     variableParent = document.createElement("div");
     flag = document.createElement("div");
@@ -13,10 +17,34 @@ export default class Stage extends Entity {
 
     readonly backdrop = new Costumes(this);
 
-    width = window.innerWidth;
-    height = window.innerHeight;
+    readonly width: number;
+    readonly height: number;
+    readonly coordinates: Coordinates;
+
+    /**
+     * Sprites (not clones) by their name.
+     */
+    private registry = new Map<string, Sprite>();
+
+    /**
+     * Maximum number of clones at the same time (like in Scratch).
+     */
+    cloneLimit = 300;
+
+    id = "Stage";
+    readonly name = "Stage";
+    readonly storageKey = "Stage";
 
     keys: string[] = [];
+
+    private initial?: Map<Entity, Entity.State>;
+
+    /**
+     * The list watchers, kept across the updates so that
+     * they keep their size and scroll and only their
+     * changed rows are rebuilt.
+     */
+    private lists = new WeakMap<Variable, Stage.ListWatcher>();
     mouseDown = false;
     mouseX = NaN;
     mouseY = NaN;
@@ -24,13 +52,17 @@ export default class Stage extends Entity {
     ctx = document.createElement("canvas").getContext("2d")!;
     pen = document.createElement("canvas").getContext("2d")!;
 
-    constructor(options: Entity.Options) {
+    constructor({width = 480, height = 360, ...options}: Entity.Options) {
         super(options);
+        this.width = width;
+        this.height = height;
+        this.coordinates = new Coordinates(width, height);
         this.variableParent.classList.add("scrap-variables");
 
         this.element.style.width = `${this.width}px`;
         this.element.style.height = `${this.height}px`;
         this.element.style.position = "absolute";
+        this.element.style.transformOrigin = "0 0";
         this.element.style.overflow = "hidden";
         this.element.style.boxSizing = "border-box";
 
@@ -77,59 +109,73 @@ export default class Stage extends Entity {
                 if (!this.keys.includes(e.key)) {
                     this.keys.push(e.key);
                 }
-            },
-            {signal: abort.signal}
+            }
         );
 
-        window.addEventListener(
-            "resize",
-            () => {
-                this.width = window.innerWidth;
-                this.height = window.innerHeight;
-                this.element.style.width = `${this.width}px`;
-                this.element.style.height = `${this.height}px`;
+        window.addEventListener("resize", () => this.resize());
+        this.resize();
+
+        this.flag.addEventListener("click", start);
+
+        scheduler.addEventListener("pause", () => audio.suspend());
+        scheduler.addEventListener("resume", () => audio.resume());
 
-                flag.style.width = `${this.width}px`;
-                flag.style.height = `${this.height}px`;
+        window.addEventListener("message", e => {
+            const command = parse(e.data);
+
+            if (command?.command === "start") {
+                this.start();
             }
-        );
+
+            if (command?.command === "stop") {
+                this.deleteAllClones();
+                audio.stopAll();
+                this.toggleFlag(this.getEntities().some(entity => entity.flags.length));
+            }
+        });
 
         window.addEventListener(
             "keyup",
             e => {
                 this.keys = this.keys.filter(key => key !== e.key);
-            },
-            {signal: abort.signal}
+            }
         );
 
         document.addEventListener(
             "mousemove",
             e => {
-                this.mouseX = e.clientX - this.width / 2;
-                this.mouseY = e.clientY - this.height / 2;
-            },
-            {signal: abort.signal}
+                [this.mouseX, this.mouseY] = this.coordinates.fromClient(e.clientX, e.clientY);
+            }
         );
 
         document.addEventListener(
             "mousedown",
             () => {
                 this.mouseDown = true;
-            },
-            {signal: abort.signal}
+            }
         );
 
         document.addEventListener(
             "mouseup",
             () => {
                 this.mouseDown = false;
-            },
-            {signal: abort.signal}
+            }
         );
 
         this.update();
     }
 
+    /**
+     * Scales the stage to fit the window.
+     */
+    private resize() {
+        this.coordinates.fit(window.innerWidth, window.innerHeight);
+
+        this.element.style.left = `${this.coordinates.left}px`;
+        this.element.style.top = `${this.coordinates.top}px`;
+        this.element.style.transform = `scale(${this.coordinates.scale})`;
+    }
+
     update() {
         const src = this.images[this.current];
         const img = new Image();
@@ -148,21 +194,266 @@ export default class Stage extends Entity {
 
     @event
     async whenFlag(fn: Entity.Callback) {
+        this.flags.push(fn);
         this.toggleFlag(true);
+    }
 
-        this.flag.addEventListener(
-            "click",
-            () => {
-                fn(this);
-                this.toggleFlag(false);
-            },
-            {once: true, signal: abort.signal}
-        );
+    private getEntities(): Entity[] {
+        return [this, ...this.sprites];
+    }
+
+    /**
+     * Resets the project to its initial state
+     * (captured on the first start) and runs
+     * all the green flag hats.
+     */
+    private start() {
+        this.toggleFlag(false);
+        audio.stopAll();
+
+        if (this.initial) {
+            this.reset(this.initial);
+        } else {
+            this.initial = new Map(this.getEntities().map(entity => [entity, entity.getState()]));
+        }
+
+        this.resetTimer();
+
+        for (const entity of this.getEntities()) {
+            for (const fn of entity.flags) {
+                fn(entity);
+            }
+        }
+    }
+
+    /**
+     * Adds the sprite to the registry, so it can be found by its name.
+     * Like in Scratch, a taken name is renumbered ("Sprite1" → "Sprite2").
+     */
+    register(sprite: Sprite) {
+        const taken = (name: string) => {
+            const other = this.getSprite(name);
+            return other !== undefined && other !== sprite;
+        };
+
+        if (taken(sprite.name)) {
+            const base = sprite.name.replace(/\d+$/, "");
+            let i = 2;
+
+            while (taken(`${base}${i}`)) {
+                i++;
+            }
+
+            sprite.name = `${base}${i}`;
+        }
+
+        this.registry.set(sprite.name, sprite);
+    }
+
+    /**
+     * @param name Name of the sprite
+     * @returns the sprite (not a clone), if it is on the stage
+     */
+    getSprite(name: string) {
+        const sprite = this.registry.get(name);
+        return sprite && this.sprites.includes(sprite) ? sprite : undefined;
+    }
+
+    /**
+     * @returns the sprites (not clones), in layer order
+     */
+    getSprites() {
+        return this.sprites.filter(sprite => !sprite.isClone);
+    }
+
+    /**
+     * @param name Name of the sprite or "Stage"
+     * @returns the entity, if there is one
+     */
+    override getEntity(name: string): Entity | undefined {
+        return name === this.id ? this : this.getSprite(name);
+    }
+
+    protected override getAttribute(attribute: string) {
+        switch (attribute) {
+            case "backdrop #":
+                return this.backdrop.index;
+            case "backdrop name":
+                return this.backdrop.name;
+            default:
+                return super.getAttribute(attribute);
+        }
+    }
+
+    deleteAllClones() {
+        for (const sprite of this.sprites) {
+            if (sprite.isClone) {
+                sprite.dispose();
+            }
+        }
+    }
+
+    private reset(initial: Map<Entity, Entity.State>) {
+        // Clones and sprites created at runtime
+        for (const sprite of this.sprites) {
+            if (!initial.has(sprite)) {
+                sprite.dispose();
+            }
+        }
+
+        this.sprites = [];
+
+        for (const [entity, state] of initial) {
+            entity.setState(state);
+
+            if (entity instanceof Sprite) {
+                this.sprites.push(entity);
+                this.element.appendChild(entity.element);
+            }
+        }
+
+        this.pen.clearRect(0, 0, this.width, this.height);
+        this.refreshSprites();
+
+        // The watchers show the variables of the previous run
+        this.updateVariables();
+    }
+
+    /**
+     * @returns the state of the whole project, which can be saved as JSON.
+     */
+    snapshot(): Stage.Snapshot {
+        const encode = (value: unknown): unknown => {
+            if (value instanceof Sprite) {
+                return {sprite: this.sprites.indexOf(Thread.unwrap(value))};
+            }
+
+            if (Array.isArray(value)) {
+                return value.map(encode);
+            }
+
+            return value;
+        };
+
+        const state = (entity: Entity): Entity.State => {
+            const state = entity.getState();
+
+            return {
+                ...state,
+                variables: state.variables.map(([name, variable]) => [name, {...variable, value: encode(variable.value)}])
+            };
+        };
+
+        return {
+            stage: state(this),
+            sprites: this.sprites.map(sprite => ({
+                ...state(sprite) as Sprite.State,
+                id: sprite.id,
+                name: sprite.name,
+                isClone: sprite.isClone,
+                images: sprite.images,
+                sounds: sprite.sounds,
+                centers: sprite.centers,
+                resolutions: sprite.resolutions
+            })),
+            pen: this.pen.canvas.toDataURL()
+        };
+    }
+
+    /**
+     * Rebuilds the state of the project. Sprites are matched by name
+     * and clones by their original, in layer order. Missing ones
+     * are created and the others are removed.
+     * @param snapshot Value returned by `snapshot`
+     */
+    async restore(snapshot: Stage.Snapshot) {
+        const remaining = [...this.sprites];
+        const loading: Promise<void>[] = [];
+
+        const take = (match: (sprite: Sprite) => boolean) => {
+            const index = remaining.findIndex(match);
+            return index === -1 ? undefined : remaining.splice(index, 1)[0];
+        };
+
+        const create = (
+            {id, name, images, sounds, centers, resolutions}: Stage.Snapshot["sprites"][number],
+            original?: Sprite
+        ) => {
+            const sprite = new Sprite({images, sounds, centers, resolutions, name, current: 0});
+
+            if (original) {
+                sprite.costumes = original.costumes;
+                sprite.original = original;
+            }
+
+            sprite.id = id;
+            loading.push(sprite.addTo(this));
+            return sprite;
+        };
+
+        const sprites: Sprite[] = [];
+        const originals = new Map<string, Sprite>();
+
+        // Originals first, so that the clones can refer to them
+        snapshot.sprites.forEach((entry, i) => {
+            if (!entry.isClone) {
+                sprites[i] = take(sprite => !sprite.isClone && sprite.name === entry.name) ?? create(entry);
+                originals.set(entry.name, sprites[i]);
+            }
+        });
+
+        snapshot.sprites.forEach((entry, i) => {
+            if (entry.isClone) {
+                sprites[i] = take(sprite => sprite.original?.name === entry.name)
+                    ?? create(entry, originals.get(entry.name));
+            }
+        });
+
+        for (const sprite of remaining) {
+            sprite.dispose();
+        }
+
+        await Promise.all(loading);
+
+        const decode = (value: unknown): unknown => {
+            if (Array.isArray(value)) {
+                return value.map(decode);
+            }
+
+            if (typeof value === "object" && value && "sprite" in value) {
+                return sprites[value.sprite as number] ?? null;
+            }
+
+            return value;
+        };
+
+        const state = <T extends Entity.State>(state: T): T => ({
+            ...state,
+            variables: state.variables.map(([name, variable]) => [name, {...variable, value: decode(variable.value)}])
+        });
+
+        this.sprites = sprites;
+        this.setState(state(snapshot.stage), false);
+
+        sprites.forEach((sprite, i) => {
+            sprite.setState(state(snapshot.sprites[i]), false);
+            this.element.appendChild(sprite.element);
+        });
+
+        this.refreshSprites();
+        this.updateVariables();
+
+        const pen = new Image();
+        pen.src = snapshot.pen;
+        await pen.decode();
+
+        this.pen.clearRect(0, 0, this.width, this.height);
+        this.pen.drawImage(pen, 0, 0);
     }
 
     @method
     async switchBackdropTo(value: string | number) {
-        const name = typeof value === "number" ? Object.keys(this.images)[value] : value;
+        const name = this.getAsset("backdrop", value);
         const detail = this.generateID();
         this.current = name;
         this.getBackdrops().dispatchEvent(
@@ -223,11 +514,19 @@ export default class Stage extends Entity {
         return this.keys.includes(key);
     }
 
-    private *allVariables() {
-        yield* this.variables;
+    /**
+     * Clones are left out, the watchers show
+     * the variables of the original sprites.
+     */
+    private *allVariables(): Generator<[Entity, string, Variable]> {
+        for (const entity of this.getEntities()) {
+            if (entity instanceof Sprite && entity.original) {
+                continue;
+            }
 
-        for (const sprite of this.sprites) {
-            yield* sprite.variables;
+            for (const [name, variable] of entity.variables) {
+                yield [entity, name, variable];
+            }
         }
     }
 
@@ -281,12 +580,82 @@ export default class Stage extends Entity {
         return div;
     }
 
+    /**
+     * Like Scratch's list watcher, it scrolls, shows the length
+     * and can be resized (the size and the scroll are kept).
+     * @param label Label of the list
+     * @param variable The variable holding the list
+     * @returns the watcher
+     */
+    private _list(label: string, variable: Variable) {
+        const list: unknown[] = variable.value;
+        let watcher = this.lists.get(variable);
+
+        if (!watcher) {
+            const element = document.createElement("div");
+            element.classList.add("scrap-list-watcher");
+
+            const title = document.createElement("span");
+
+            const items = document.createElement("div");
+            items.classList.add("scrap-list-items");
+
+            const footer = document.createElement("span");
+
+            element.append(title, items, footer);
+
+            const created: Stage.ListWatcher = {element, title, items, footer, shown: [], scrollTop: 0};
+            items.onscroll = () => created.scrollTop = items.scrollTop;
+
+            watcher = created;
+            this.lists.set(variable, watcher);
+        }
+
+        const {title, items, footer, shown} = watcher;
+        const rows = shown.length ? Array.from(items.children) : [];
+
+        title.textContent = label;
+        footer.textContent = `length ${list.length}`;
+
+        if (!shown.length) {
+            items.textContent = "";
+        }
+
+        for (let i = 0; i < list.length; i++) {
+            if (i >= rows.length) {
+                items.appendChild(this._variable(`${i}`, list[i]));
+            } else if (!Object.is(shown[i], list[i])) {
+                items.replaceChild(this._variable(`${i}`, list[i]), rows[i]);
+            }
+        }
+
+        for (const row of rows.slice(list.length)) {
+            row.remove();
+        }
+
+        if (!list.length) {
+            items.textContent = "(empty)";
+        }
+
+        // Follow the added items, like Scratch
+        const scrollTop = list.length > shown.length ? Infinity : watcher.scrollTop;
+        requestAnimationFrame(() => items.scrollTop = scrollTop);
+
+        watcher.shown = [...list];
+
+        return watcher.element;
+    }
+
     override updateVariables() {
         this.variableParent.innerHTML = "";
 
-        for (const [name, variable] of this.allVariables()) {
-            if (variable.visible) {
-                const div = this._variable(name, variable.value);
+        for (const [entity, name, variable] of this.allVariables()) {
+            const label = entity instanceof Sprite ? `${entity.name}: ${name}` : name;
+
+            if (variable.visible && Array.isArray(variable.value)) {
+                this.variableParent.appendChild(this._list(label, variable));
+            } else if (variable.visible) {
+                const div = this._variable(label, variable.value);
 
                 if (variable.types.includes(VariableType.Number)) {
                     const slider = document.createElement("input");
@@ -298,7 +667,9 @@ export default class Stage extends Entity {
                     slider.classList.add("scrap-slider");
 
                     slider.oninput = () => {
+                        const previous = variable.value;
                         variable.value = Number(slider.value);
+                        entity.notifyVariable(name, variable, previous);
                         div.replaceChild(this._value(this.makeWatchVariable(slider.value)), div.querySelector(".scrap-value")!);
                     };
 
@@ -312,4 +683,40 @@ export default class Stage extends Entity {
     }
 
     [Symbol.toStringTag] = "Stage";
-}
\ No newline at end of file
+}
+
+declare namespace Stage {
+    interface Snapshot {
+        stage: Entity.State;
+        sprites: (Sprite.State & {
+            id: string;
+            /**
+             * Name of the sprite, or of the original of a clone
+             */
+            name: string;
+            isClone: boolean;
+            images: Entity.Assets;
+            sounds: Entity.Assets;
+            centers: Sprite.Centers;
+            resolutions: Sprite.Resolutions;
+        })[];
+        /**
+         * The pen layer as a data URL
+         */
+        pen: string;
+    }
+
+    interface ListWatcher {
+        element: HTMLDivElement;
+        title: HTMLSpanElement;
+        items: HTMLDivElement;
+        footer: HTMLSpanElement;
+        /**
+         * The items shown in the rows
+         */
+        shown: unknown[];
+        scrollTop: number;
+    }
+}
+
+export default Stage;
\ No newline at end of file
@@ -0,0 +1,107 @@
+import {Variable, isVariableType} from "./variables";
+
+/**
+ * Where the persistent variables are kept.
+ * Implementations are keyed by the project id,
+ * so that projects don't collide.
+ */
+export interface Storage {
+    load(key: string): Promise<unknown>;
+    save(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Keeps the values in the `localStorage` of the browser, as JSON.
+ */
+export class LocalStorage implements Storage {
+    constructor(readonly project: string) {}
+
+    /**
+     * @returns undefined when the storage is unavailable
+     * or the value is corrupted
+     */
+    async load(key: string) {
+        try {
+            const json = localStorage.getItem(this.toKey(key));
+            return json === null ? undefined : JSON.parse(json);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Does nothing when the storage is unavailable or full.
+     */
+    async save(key: string, value: unknown) {
+        try {
+            localStorage.setItem(this.toKey(key), JSON.stringify(value));
+        } catch {
+            // The variable keeps its value until the page is closed
+        }
+    }
+
+    private toKey(key: string) {
+        return `scrap:${this.project}:${key}`;
+    }
+}
+
+/**
+ * Keeps the values in memory, for tests.
+ */
+export class MemoryStorage implements Storage {
+    readonly values = new Map<string, unknown>();
+
+    constructor(readonly project = "") {}
+
+    async load(key: string) {
+        return this.values.get(`${this.project}:${key}`);
+    }
+
+    async save(key: string, value: unknown) {
+        this.values.set(`${this.project}:${key}`, value);
+    }
+}
+
+/**
+ * The storage used by the engine. By default, `localStorage`
+ * keyed by the "data-project" attribute of the frame.
+ */
+export let storage: Storage = new LocalStorage(frameElement?.getAttribute("data-project") ?? location.pathname);
+
+/**
+ * Replaces the storage of the engine.
+ * It should be called before the variables are declared.
+ * @param value The new storage
+ */
+export function setStorage(value: Storage) {
+    storage = value;
+}
+
+/**
+ * Saves the value of a variable, if it is persistent.
+ * @param entity Storage key of the entity owning the variable
+ * @param name Name of the variable
+ * @param variable The variable
+ * @returns a promise that rejects if the value can't be saved
+ */
+export async function persist(entity: string, name: string, variable: Variable) {
+    if (variable.persistent) {
+        await storage.save(`${entity}:${name}`, variable.value);
+    }
+}
+
+/**
+ * Loads the saved value of a persistent variable,
+ * unless it no longer matches the types of the variable.
+ * The variable keeps its value if the promise rejects.
+ * @param entity Storage key of the entity owning the variable
+ * @param name Name of the variable
+ * @param variable The variable
+ */
+export async function load(entity: string, name: string, variable: Variable) {
+    const value = await storage.load(`${entity}:${name}`);
+
+    if (value !== undefined && variable.types.every(type => isVariableType(type, value))) {
+        variable.value = value;
+    }
+}
@@ -7,18 +7,9 @@ class TextUI {
     constructor(sprite: Sprite, type: "say" | "think", text: string);
 
     constructor(readonly sprite: Sprite, readonly type: "ask" | "think" | "say", readonly text: string, askId?: string) {
-        const x = sprite.x - sprite.width / 2;
-        const y = -sprite.y - sprite.height / 2;
-
-        this.update = TextUI.update.bind(this);
-        window.addEventListener("resize", this.update);
-
         this.element.style.position = "absolute";
         this.element.append(text, document.createElement("br"));
 
-        this.element.style.left = `${(sprite.stage.width / 2) + x + (sprite.width * 0.6)}px`;
-        this.element.style.top = `${((sprite.stage.height / 2) + y) - 80 - (Math.floor(this.text.length / 30) * 16)}px`;
-
         this.element.className = `blocklike-${type}`;
 
         if (type === "ask") {
@@ -35,37 +26,27 @@ class TextUI {
 
             form.append(input, btn);
             this.element.append(form);
-
-            this.element.style.top = `${((sprite.stage.height / 2) + y) - 110 - (Math.floor(this.text.length / 30) * 16)}px`;
         }
 
-        this.element.style.visibility = this.sprite.visible ? "visible" : "hidden";
+        this.update();
         this.sprite.stage.element.insertBefore(this.element, this.sprite.element);
     }
 
-    private static update(this: TextUI) {
-        const x = this.sprite.x - this.sprite.width / 2;
-        const y = -this.sprite.y - this.sprite.height / 2;
+    update() {
+        const [x, y] = this.sprite.stage.coordinates.toCanvas(this.sprite.x, this.sprite.y);
+        const [centerX, centerY] = this.sprite.offset;
+        const offset = this.type === "ask" ? 110 : 80;
 
-        this.element.style.left = `${(this.sprite.stage.width / 2) + x + (this.sprite.width * 0.6)}px`;
-        this.element.style.top = `${((this.sprite.stage.height / 2) + y) - 80 - (Math.floor(this.text.length / 30) * 16)}px`;
-
-        if (this.type === 'ask') {
-            this.element.style.top = `${((this.sprite.stage.height / 2) + y) - 110 - (Math.floor(this.text.length / 30) * 16)}px`;
-        }
+        // Relative to the sprite's box, which the center may not be the middle of
+        this.element.style.left = `${x - centerX + this.sprite.width * 0.6}px`;
+        this.element.style.top = `${y - centerY - offset - (Math.floor(this.text.length / 30) * 16)}px`;
 
         this.element.style.visibility = this.sprite.visible ? "visible" : "hidden";
     }
 
-
     delete() {
         this.element.remove();
-        window.removeEventListener("resize", this.update);
     }
 }
 
-interface TextUI {
-    update(): void;
-}
-
 export default TextUI;
\ No newline at end of file
@@ -1,24 +1,49 @@
+import {clock} from "./clock";
+import {scheduler} from "./utils";
+
 class Timer {
-    now = Date.now();
+    now = 0;
     listeners: [number, number, () => void][] = [];
 
+    constructor() {
+        scheduler.addEventListener("pause", () => {
+            for (const data of this.listeners) {
+                clock.clearTimeout(data[0]);
+            }
+        });
+
+        scheduler.addEventListener("resume", () => {
+            for (const data of this.listeners) {
+                const remaining = data[1] - (scheduler.now() - this.now);
+
+                // The others have already fired
+                if (remaining > 0) {
+                    data[0] = clock.setTimeout(data[2], remaining);
+                }
+            }
+        });
+    }
+
     reset() {
-        this.now = Date.now();
+        this.now = scheduler.now();
 
         for (const data of this.listeners) {
-            window.clearTimeout(data[0]);
-            data[0] = window.setTimeout(
-                data[2],
-                data[1] - (Date.now() - this.now)
-            );
+            clock.clearTimeout(data[0]);
+
+            if (!scheduler.paused) {
+                data[0] = clock.setTimeout(
+                    data[2],
+                    data[1] - (scheduler.now() - this.now)
+                );
+            }
         }
     }
 
     whenElapsed(time: number, callback: () => Promise<void>) {
         this.listeners.push([
-            window.setTimeout(
+            scheduler.paused ? -1 : clock.setTimeout(
                 callback, 
-                time - (Date.now() - this.now)
+                time - (scheduler.now() - this.now)
             ), 
             time, callback
         ]);
@@ -1,16 +1,75 @@
-export const abort = new AbortController();
+import Scheduler, {Thread} from "./scheduler";
+import {parse, report, send} from "./protocol";
+import {uncaught} from "./errors";
+
+/**
+ * Aborted when the project stops,
+ * replaced when it starts again.
+ */
+export let abort = new AbortController();
 
 /*
  * Thanks to message, we can stop
  * Scrap project from IDE 
  */
 export function stop() {
-    window.postMessage("STOP", "*");
+    send({command: "stop"});
+}
+
+/*
+ * Starts (or restarts) the project,
+ * just like clicking the green flag
+ */
+export function start() {
+    send({command: "start"});
+}
+
+/*
+ * Freezes the project for debugging
+ */
+export function pause() {
+    send({command: "pause"});
+}
+
+export function resume() {
+    send({command: "resume"});
+}
+
+/*
+ * Lets every script of a paused
+ * project run one more operation
+ */
+export function step() {
+    send({command: "step"});
 }
 
 window.addEventListener("message", e => {
-    if (e.data === "STOP") {
-        abort.abort();
+    const command = parse(e.data);
+
+    switch (command?.command) {
+        case "stop":
+            abort.abort(new StopError());
+            report({report: "stopped"});
+            break;
+        case "start":
+            abort.abort(new StopError());
+            abort = new AbortController();
+            uncaught.length = 0;
+            scheduler.resume();
+            report({report: "started"});
+            break;
+        case "pause":
+            scheduler.pause();
+            break;
+        case "resume":
+            scheduler.resume();
+            break;
+        case "step":
+            scheduler.step();
+            break;
+        case "turbo":
+            scheduler.turbo = command.enabled;
+            break;
     }
 });
 
@@ -22,18 +81,31 @@ export class StopError extends Error {
     }
 }
 
+/**
+ * Initial turbo mode, the IDE can change it with the "turbo" command.
+ */
 export const isTurbo = frameElement?.getAttribute("data-mode") === "turbo";
 
+export const scheduler = new Scheduler(isTurbo);
+
+/**
+ * @returns the signal of the running thread or, outside of threads, of the project.
+ */
+export function getSignal() {
+    return Thread.current?.signal ?? abort.signal;
+}
+
 /**
  * This is a loop guard function. It is injected 
  * by Scrap IDE to prevent infinite loops.
+ * Without `self`, the loop only stops with its thread while
+ * the script calls methods of `self`: after awaiting anything
+ * else (like another entity), it stops with the project.
  * @param resolve Promise resolve function.
  * @param reject Promise reject function.
+ * @param self The `self` of the script running the loop.
  */
-export function loop(resolve: VoidFunction, reject: (reason: Error) => void) {
-    if (abort.signal.aborted) {
-        reject(new StopError());
-    } else {
-        window.setTimeout(resolve);
-    }
+export function loop(resolve: VoidFunction, reject: (reason: Error) => void, self?: unknown) {
+    const signal = Thread.of(self)?.signal ?? getSignal();
+    scheduler.yield(signal).then(resolve, reject);
 }
\ No newline at end of file
@@ -24,6 +24,10 @@ export type Variable = {
     value: any;
     visible: boolean;
     types: VariableType[];
+    /**
+     * Whether the value survives reloads (see storage.ts)
+     */
+    persistent?: boolean;
 }
 
 export function isVariableType<T extends VariableType>(